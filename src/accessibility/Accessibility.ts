@@ -0,0 +1,86 @@
+import { StopID, StopIndex, Trip } from '../gtfs/GTFS';
+import { TransfersByOrigin } from '../raptor/RaptorAlgorithm';
+
+/**
+ * Wheelchair accessibility, as given by the GTFS wheelchair_boarding and wheelchair_accessible fields
+ */
+export enum Accessibility {
+	Unknown,
+	Accessible,
+	Inaccessible
+}
+
+/**
+ * Returns the accessibility of a GTFS value: 1 is accessible, 2 is not, anything else is unknown.
+ */
+export function parseAccessibility(value: string | number | undefined): Accessibility {
+	switch (String(value)) {
+		case "1":
+			return Accessibility.Accessible;
+		case "2":
+			return Accessibility.Inaccessible;
+		default:
+			return Accessibility.Unknown;
+	}
+}
+
+/**
+ * Returns the accessibility of a stop. As in the GTFS specification, a stop without information inherits the
+ * accessibility of its parent station.
+ */
+export function getStopAccessibility(stops: StopIndex, stopId: StopID): Accessibility {
+	const stop = stops[stopId];
+	if (!stop) {
+		return Accessibility.Unknown;
+	}
+
+	const accessibility = parseAccessibility(stop.wheelchairBoarding);
+	if (accessibility === Accessibility.Unknown && stop.parentStation && stops[stop.parentStation]) {
+		return parseAccessibility(stops[stop.parentStation].wheelchairBoarding);
+	}
+	return accessibility;
+}
+
+/**
+ * Returns the trips a wheelchair user can take: inaccessible trips are removed, and the inaccessible stops can no
+ * longer be used to board or alight. Trips and stops without information are kept.
+ *
+ * @param trips - The trips to filter.
+ * @param stops - The GTFS stops.
+ *
+ * @returns The trips to give to the RAPTOR algorithm.
+ */
+export function getAccessibleTrips(trips: Trip[], stops: StopIndex): Trip[] {
+	return trips
+		.filter(trip => parseAccessibility(trip.wheelchairAccessible) !== Accessibility.Inaccessible)
+		.map(trip => {
+			if (!trip.stopTimes.some(stopTime => getStopAccessibility(stops, stopTime.stopId) === Accessibility.Inaccessible)) {
+				return trip;
+			}
+
+			return {
+				...trip,
+				stopTimes: trip.stopTimes.map(stopTime => getStopAccessibility(stops, stopTime.stopId) === Accessibility.Inaccessible
+					? { ...stopTime, pickUp: false, dropOff: false }
+					: stopTime
+				),
+			};
+		});
+}
+
+/**
+ * Returns the step-free transfers, the transfers from or to an inaccessible stop are removed.
+ */
+export function getAccessibleTransfers(transfers: TransfersByOrigin, stops: StopIndex): TransfersByOrigin {
+	const results: TransfersByOrigin = {};
+
+	for (const [origin, originTransfers] of Object.entries(transfers)) {
+		if (getStopAccessibility(stops, origin) === Accessibility.Inaccessible) continue;
+
+		results[origin] = originTransfers.filter(transfer =>
+			getStopAccessibility(stops, transfer.destination) !== Accessibility.Inaccessible
+		);
+	}
+
+	return results;
+}
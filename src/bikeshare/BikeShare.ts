@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import haversine from 'haversine-distance';
+import { Coords } from '../interfaces';
+
+/**
+ * Bike-share station of the GBFS feed, with its availability at the time of the last status
+ */
+export interface BikeStation {
+	id: string;
+	nom: string;
+	coords: Coords;
+	bikesAvailable: number;
+	docksAvailable: number;
+	isRenting: boolean;
+	isReturning: boolean;
+}
+
+/**
+ * Station as given by the station_information.json file of the GBFS feed
+ */
+interface RawStationInformation {
+	station_id: string;
+	name: string;
+	lat: number;
+	lon: number;
+}
+
+/**
+ * Station as given by the station_status.json file of the GBFS feed, the flags are 0/1 in GBFS 1.x and booleans since 2.0
+ */
+interface RawStationStatus {
+	station_id: string;
+	num_bikes_available: number;
+	num_docks_available?: number;
+	is_installed?: boolean | number;
+	is_renting?: boolean | number;
+	is_returning?: boolean | number;
+}
+
+/**
+ * Reads the station_information.json and station_status.json files of a GBFS feed. A missing feed means there is no
+ * bike-share system, the stations without a status or that are not installed are ignored.
+ *
+ * @param directory - The directory of the GBFS files.
+ *
+ * @returns The bike-share stations.
+ */
+export async function loadBikeStations(directory: string): Promise<BikeStation[]> {
+	let informationStr: string;
+	let statusStr: string;
+	try {
+		[informationStr, statusStr] = await Promise.all([
+			fs.readFile(join(directory, 'station_information.json'), 'utf-8'),
+			fs.readFile(join(directory, 'station_status.json'), 'utf-8'),
+		]);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
+
+	const informations: RawStationInformation[] = JSON.parse(informationStr).data.stations;
+	const statuses = new Map<string, RawStationStatus>();
+	for (const status of JSON.parse(statusStr).data.stations as RawStationStatus[]) {
+		statuses.set(status.station_id, status);
+	}
+
+	const stations: BikeStation[] = [];
+	for (const information of informations) {
+		const status = statuses.get(information.station_id);
+		if (!status || isFalse(status.is_installed)) continue;
+
+		stations.push({
+			id: information.station_id,
+			nom: information.name,
+			coords: { latitude: information.lat, longitude: information.lon },
+			bikesAvailable: status.num_bikes_available,
+			docksAvailable: status.num_docks_available ?? 0,
+			isRenting: !isFalse(status.is_renting),
+			isReturning: !isFalse(status.is_returning),
+		});
+	}
+	return stations;
+}
+
+/**
+ * Finds the closest bike-share station where a bike can be picked up, or dropped off.
+ *
+ * @param coords - The coordinates to search from.
+ * @param bikeStations - The bike-share stations.
+ * @param radius - The maximum distance to the station (in meters).
+ * @param pickUp - Whether a bike is picked up at the station, or dropped off.
+ *
+ * @returns The closest station, or undefined if there is none within the radius.
+ */
+export function findClosestBikeStation(coords: Coords, bikeStations: BikeStation[], radius: number, pickUp: boolean): BikeStation | undefined {
+	let closest: BikeStation | undefined;
+	let closestDistance = radius;
+
+	for (const bikeStation of bikeStations) {
+		const available = pickUp
+			? bikeStation.isRenting && bikeStation.bikesAvailable > 0
+			: bikeStation.isReturning && bikeStation.docksAvailable > 0;
+		if (!available) continue;
+
+		const distance = haversine(coords, bikeStation.coords);
+		if (distance <= closestDistance) {
+			closest = bikeStation;
+			closestDistance = distance;
+		}
+	}
+	return closest;
+}
+
+/**
+ * GBFS flags are missing when true by default
+ */
+function isFalse(flag: boolean | number | undefined): boolean {
+	return flag === false || flag === 0;
+}
@@ -0,0 +1,93 @@
+import { DayOfWeek, StopID, StopTime, Time, Trip } from '../gtfs/GTFS';
+import { getDateNumber } from '../query/DateUtil';
+
+/**
+ * Departure of a trip from a stop. The time is relative to the midnight of the requested day, so a trip of the
+ * previous service day running after midnight has its time shifted back by a day.
+ */
+export interface Departure {
+	trip: Trip;
+	stopTime: StopTime;
+	time: Time;
+}
+
+const ONE_DAY = 24 * 60 * 60;
+
+/**
+ * Index of the departures of every stop, used to answer departure board requests.
+ */
+export class DepartureBoard {
+	private readonly departuresByStop: Record<StopID, [Trip, StopTime][]> = {};
+
+	constructor(trips: Trip[]) {
+		for (const trip of trips) {
+			// the last stop of a trip is an arrival only
+			for (const stopTime of trip.stopTimes.slice(0, -1)) {
+				if (!stopTime.pickUp) continue;
+
+				this.departuresByStop[stopTime.stopId] = this.departuresByStop[stopTime.stopId] || [];
+				this.departuresByStop[stopTime.stopId].push([trip, stopTime]);
+			}
+		}
+
+		for (const departures of Object.values(this.departuresByStop)) {
+			departures.sort((a, b) => a[1].departureTime - b[1].departureTime);
+		}
+	}
+
+	/**
+	 * Returns the departures from the given stops between the start and end time of the day, sorted by time.
+	 *
+	 * @param stops - The physical stops.
+	 * @param date - The day of the departures.
+	 * @param startTime - The earliest departure time, in seconds since midnight.
+	 * @param endTime - The latest departure time, in seconds since midnight.
+	 */
+	public getDepartures(stops: StopID[], date: Date, startTime: Time, endTime: Time): Departure[] {
+		const results: Departure[] = [];
+
+		// trips of the previous service day can still run after midnight
+		const previousDay = new Date(date.getTime() - ONE_DAY * 1000);
+		const days: [Date, number][] = [[previousDay, ONE_DAY], [date, 0]];
+
+		for (const stop of stops) {
+			const departures = this.departuresByStop[stop] || [];
+
+			for (const [day, offset] of days) {
+				const dateNumber = getDateNumber(day);
+				const dow = day.getDay() as DayOfWeek;
+
+				for (let i = this.findFirstDeparture(departures, startTime + offset); i < departures.length; i++) {
+					const [trip, stopTime] = departures[i];
+					if (stopTime.departureTime > endTime + offset) break;
+
+					if (trip.service.runsOn(dateNumber, dow)) {
+						results.push({ trip, stopTime, time: stopTime.departureTime - offset });
+					}
+				}
+			}
+		}
+
+		return results.sort((a, b) => a.time - b.time);
+	}
+
+	/**
+	 * Binary search of the first departure at or after the given time
+	 */
+	private findFirstDeparture(departures: [Trip, StopTime][], time: Time): number {
+		let low = 0;
+		let high = departures.length;
+
+		while (low < high) {
+			const mid = (low + high) >> 1;
+
+			if (departures[mid][1].departureTime < time) {
+				low = mid + 1;
+			} else {
+				high = mid;
+			}
+		}
+
+		return low;
+	}
+}
@@ -0,0 +1,104 @@
+import { StopTime, Trip } from '../gtfs/GTFS';
+import { toApiId } from '../gtfs/Feeds';
+import { Disruption, DisruptedSegment } from './Disruptions';
+
+/**
+ * Applies the disruptions to the trips.
+ *
+ * As for realtime updates, the trips are never modified: a disrupted trip is replaced by a copy that does not run
+ * during the disruption, plus the parts of the trip still served during the disruption. The parts keep the ID of the
+ * trip so that the journeys can still be matched to the scheduled trip.
+ *
+ * @param trips - The trips to disrupt.
+ * @param disruptions - Every known disruption, whatever its validity period.
+ *
+ * @returns The trips to give to the RAPTOR algorithm.
+ */
+export function applyDisruptions(trips: Trip[], disruptions: Disruption[]): Trip[] {
+	const results: Trip[] = [];
+
+	for (const trip of trips) {
+		let versions = [trip];
+
+		for (const disruption of disruptions) {
+			if (!isAffected(trip, disruption)) continue;
+
+			versions = versions.flatMap(version => [
+				{ ...version, service: version.service.restrict(disruption.start, disruption.end, false) },
+				...getDisruptedParts(version, disruption).map(part => ({
+					...part,
+					service: version.service.restrict(disruption.start, disruption.end, true),
+				})),
+			]);
+		}
+
+		results.push(...versions);
+	}
+
+	return results;
+}
+
+/**
+ * Returns true if the disruption closes the trip, its ligne, one of its stops or one of its segments.
+ */
+function isAffected(trip: Trip, disruption: Disruption): boolean {
+	return disruption.trips.includes(trip.id)
+		|| disruption.lignes.includes(toApiId(trip.routeId))
+		|| trip.stopTimes.some(stopTime => disruption.stops.includes(toApiId(stopTime.stopId)))
+		|| disruption.segments.some(segment => findSegment(trip, segment) !== null);
+}
+
+/**
+ * Returns the parts of the trip that are still served during the disruption. The closed stops can no longer be used
+ * to board or alight, and the trip is cut at each closed segment.
+ */
+function getDisruptedParts(trip: Trip, disruption: Disruption): Trip[] {
+	if (disruption.trips.includes(trip.id) || disruption.lignes.includes(toApiId(trip.routeId))) {
+		return [];
+	}
+
+	const stopTimes: StopTime[] = trip.stopTimes.map(stopTime => disruption.stops.includes(toApiId(stopTime.stopId))
+		? { ...stopTime, pickUp: false, dropOff: false }
+		: stopTime
+	);
+
+	// indexes of the stop times where the trip is cut, the stops strictly between them are not served
+	const cuts = disruption.segments
+		.map(segment => findSegment(trip, segment))
+		.filter((cut): cut is [number, number] => cut !== null)
+		.sort((a, b) => a[0] - b[0]);
+
+	const parts: StopTime[][] = [];
+	let start = 0;
+	for (const [from, to] of cuts) {
+		if (from >= start) {
+			parts.push(stopTimes.slice(start, from + 1));
+		}
+		start = Math.max(start, to);
+	}
+	parts.push(stopTimes.slice(start));
+
+	return parts
+		.filter(part => part.length > 1)
+		.map(part => ({ ...trip, stopTimes: part }));
+}
+
+/**
+ * Finds the indexes of the stop times delimiting the segment, or null if the trip does not run through the segment.
+ */
+function findSegment(trip: Trip, segment: DisruptedSegment): [number, number] | null {
+	if (toApiId(trip.routeId) !== segment.ligne_id) {
+		return null;
+	}
+	if (segment.direction_id !== undefined && Number(trip.directionId) !== segment.direction_id) {
+		return null;
+	}
+
+	const fromIndex = trip.stopTimes.findIndex(stopTime => toApiId(stopTime.stopId) === segment.from);
+	const toIndex = trip.stopTimes.findIndex(stopTime => toApiId(stopTime.stopId) === segment.to);
+	if (fromIndex === -1 || toIndex === -1) {
+		return null;
+	}
+
+	return [Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex)];
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import { DateNumber, TripID } from '../gtfs/GTFS';
+import { FormattedJourney } from '../interfaces';
+import { getDateNumber } from '../query/DateUtil';
+
+/**
+ * Disruption of the network (works, events...) valid from the start to the end day, both included
+ */
+export interface Disruption {
+	id: string;
+	start: DateNumber;
+	end: DateNumber;
+	message?: string;
+	stops: (number | string)[];
+	lignes: (number | string)[];
+	trips: TripID[];
+	segments: DisruptedSegment[];
+}
+
+/**
+ * Section of a ligne that is not served between two physical stops, in one direction or in both when no direction is given
+ */
+export interface DisruptedSegment {
+	ligne_id: number | string;
+	direction_id?: number;
+	from: number | string;
+	to: number | string;
+}
+
+/**
+ * Disruption as written in the definition file, days are given as "YYYY-MM-DD"
+ */
+interface RawDisruption {
+	id: string;
+	start: string;
+	end: string;
+	message?: string;
+	stops?: (number | string)[];
+	lignes?: (number | string)[];
+	trips?: TripID[];
+	segments?: DisruptedSegment[];
+}
+
+/**
+ * Reads the disruption definition file. A missing file means there is no disruption.
+ *
+ * @param path - The path of the definition file.
+ *
+ * @returns The disruptions of the file.
+ */
+export async function loadDisruptions(path: string): Promise<Disruption[]> {
+	let content: string;
+	try {
+		content = await fs.readFile(path, 'utf-8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
+
+	const rawDisruptions: RawDisruption[] = JSON.parse(content);
+	return rawDisruptions.map(raw => {
+		const start = parseDay(raw.start);
+		const end = parseDay(raw.end);
+		if (isNaN(start) || isNaN(end) || start > end) {
+			throw new Error(`Invalid validity period for disruption ${raw.id}`);
+		}
+
+		return {
+			id: raw.id,
+			start: start,
+			end: end,
+			message: raw.message,
+			stops: raw.stops || [],
+			lignes: raw.lignes || [],
+			trips: raw.trips || [],
+			segments: raw.segments || [],
+		};
+	});
+}
+
+/**
+ * Returns the disruptions valid on the day of the given date.
+ */
+export function getActiveDisruptions(disruptions: Disruption[], date: Date): Disruption[] {
+	if (isNaN(date.getTime())) {
+		return [];
+	}
+
+	const dateNumber = getDateNumber(date);
+	return disruptions.filter(disruption => disruption.start <= dateNumber && disruption.end >= dateNumber);
+}
+
+/**
+ * Returns the physical stops closed by the given disruptions.
+ */
+export function getClosedStops(disruptions: Disruption[]): Set<number | string> {
+	return new Set(disruptions.flatMap(disruption => disruption.stops));
+}
+
+/**
+ * Returns the lignes closed by the given disruptions.
+ */
+export function getClosedLignes(disruptions: Disruption[]): Set<number | string> {
+	return new Set(disruptions.flatMap(disruption => disruption.lignes));
+}
+
+/**
+ * Returns the messages of the disruptions affecting a stop or a ligne used by the journey.
+ *
+ * @param journey - The formatted journey.
+ * @param disruptions - The disruptions valid on the day of the journey.
+ *
+ * @returns The messages, in the order of the definition file.
+ */
+export function getJourneyDisruptions(journey: FormattedJourney, disruptions: Disruption[]): string[] {
+	const messages: string[] = [];
+
+	for (const disruption of disruptions) {
+		if (!disruption.message) continue;
+
+		const isAffected = journey.trip_details.some(tripDetail =>
+			disruption.lignes.includes(tripDetail.ligne_id)
+			|| disruption.segments.some(segment =>
+				segment.ligne_id === tripDetail.ligne_id
+				&& (segment.direction_id === undefined || segment.direction_id === tripDetail.direction_id[0])
+			)
+			|| tripDetail.stations.some(station => disruption.stops.includes(station.physical_id))
+		);
+
+		if (isAffected) {
+			messages.push(disruption.message);
+		}
+	}
+
+	return messages;
+}
+
+/**
+ * Converts a "YYYY-MM-DD" day into a DateNumber, e.g. 20250322.
+ */
+function parseDay(day: string): DateNumber {
+	return /^\d{4}-\d{2}-\d{2}$/.test(day) ? Number(day.replace(/-/g, '')) : NaN;
+}
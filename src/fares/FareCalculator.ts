@@ -0,0 +1,283 @@
+import { FareAttribute, FareData, FareLegRule, FareProduct, FareRule, FareTransferRule, StopID, StopIndex, TimetableLeg, Time } from '../gtfs/GTFS';
+import { splitBlockContinuation } from '../gtfs/Blocks';
+import { Journey } from '../results/Journey';
+import { isTimetableLeg } from '../results/ResultsFactory';
+
+/**
+ * Price of a journey and the ticket products to buy
+ */
+export interface Fare {
+	price: number;
+	currency: string;
+	products: FareProduct[];
+}
+
+/**
+ * Ticket bought for a leg with Fares v1, reused on the next legs while its transfers are valid
+ */
+interface Ticket {
+	attribute: FareAttribute;
+	startTime: Time;
+	transfers: number;
+}
+
+/**
+ * Prices the journeys with the GTFS fares. Fares v2 are used when the GTFS has fare leg rules, Fares v1 otherwise.
+ */
+export class FareCalculator {
+	private readonly rulesByFare: Record<string, FareRule[]> = {};
+	private readonly products: Record<string, FareProduct> = {};
+
+	constructor(
+		private readonly fares: FareData,
+		private readonly stops: StopIndex
+	) {
+		for (const rule of fares.rules) {
+			this.rulesByFare[rule.fareId] = this.rulesByFare[rule.fareId] || [];
+			this.rulesByFare[rule.fareId].push(rule);
+		}
+
+		// a product may have several prices (rider categories, fare media...), the one of the default rider category
+		// is used, then the one without fare media, then the first one
+		for (const product of fares.products) {
+			if (!this.products[product.id] || this.getPriceRank(product) < this.getPriceRank(this.products[product.id])) {
+				this.products[product.id] = product;
+			}
+		}
+	}
+
+	/**
+	 * Returns the price of the journey, or null if the GTFS has no fares or a leg cannot be priced.
+	 */
+	public getFare(journey: Journey): Fare | null {
+		const legs = journey.legs.filter(isTimetableLeg).flatMap(splitBlockContinuation);
+		if (legs.length === 0) {
+			return null;
+		}
+
+		if (this.fares.legRules.length > 0) {
+			return this.getFareV2(legs);
+		}
+		if (this.fares.attributes.length > 0) {
+			return this.getFareV1(legs);
+		}
+		return null;
+	}
+
+	/**
+	 * Buys the cheapest ticket valid for each leg, unless the ticket of the previous leg can still be used.
+	 */
+	private getFareV1(legs: TimetableLeg[]): Fare | null {
+		const tickets: Ticket[] = [];
+
+		for (const leg of legs) {
+			const ticket = tickets[tickets.length - 1];
+			if (ticket && this.canTransferV1(ticket, leg)) {
+				ticket.transfers++;
+				continue;
+			}
+
+			const attribute = this.fares.attributes
+				.filter(fareAttribute => this.matchesV1(fareAttribute, leg))
+				.sort((a, b) => a.price - b.price)[0];
+			if (!attribute) {
+				return null;
+			}
+
+			tickets.push({ attribute, startTime: getLegDepartureTime(leg), transfers: 0 });
+		}
+
+		return getTotal(tickets.map(ticket => ({
+			id: ticket.attribute.fareId,
+			name: ticket.attribute.fareId,
+			amount: ticket.attribute.price,
+			currency: ticket.attribute.currency,
+			riderCategoryId: "",
+			fareMediaId: "",
+		})));
+	}
+
+	/**
+	 * Returns true if the ticket is still valid for the leg
+	 */
+	private canTransferV1(ticket: Ticket, leg: TimetableLeg): boolean {
+		const { transfers, transferDuration } = ticket.attribute;
+
+		return this.matchesV1(ticket.attribute, leg)
+			&& (transfers === null || ticket.transfers < transfers)
+			&& (transferDuration === null || getLegDepartureTime(leg) - ticket.startTime <= transferDuration);
+	}
+
+	/**
+	 * Returns true if one of the rules of the fare matches the route and the zones of the leg. A fare without rules
+	 * matches every leg.
+	 */
+	private matchesV1(attribute: FareAttribute, leg: TimetableLeg): boolean {
+		const rules = this.rulesByFare[attribute.fareId];
+		if (!rules) {
+			return true;
+		}
+
+		const originZone = this.stops[leg.origin]?.zoneId;
+		const destinationZone = this.stops[leg.destination]?.zoneId;
+		const zones = leg.stopTimes.map(stopTime => this.stops[stopTime.stopId]?.zoneId);
+
+		return rules.some(rule =>
+			(!rule.routeId || rule.routeId === leg.trip.routeId)
+			&& (!rule.originId || rule.originId === originZone)
+			&& (!rule.destinationId || rule.destinationId === destinationZone)
+			&& (!rule.containsId || zones.includes(rule.containsId))
+		);
+	}
+
+	/**
+	 * Prices each leg with its leg rule, then applies the transfer rules between consecutive legs.
+	 */
+	private getFareV2(legs: TimetableLeg[]): Fare | null {
+		const products: FareProduct[] = [];
+		let previousLeg: TimetableLeg | null = null;
+		let previousRule: FareLegRule | null = null;
+		let transfers = 0;
+
+		for (const leg of legs) {
+			const rule = this.getLegRule(leg);
+			if (!rule) {
+				return null;
+			}
+
+			const transferRule = previousLeg && this.getTransferRule(previousRule, rule, transfers, previousLeg, leg);
+			if (!transferRule) {
+				products.push(this.products[rule.fareProductId]);
+				transfers = 0;
+			} else {
+				const transferProduct = this.products[transferRule.fareProductId];
+
+				// 0: A + AB, 1: A + AB + B, 2: AB
+				if (transferRule.fareTransferType === 2) {
+					products.pop();
+				}
+				if (transferProduct) {
+					products.push(transferProduct);
+				}
+				if (transferRule.fareTransferType === 1) {
+					products.push(this.products[rule.fareProductId]);
+				}
+				transfers++;
+			}
+
+			previousLeg = leg;
+			previousRule = rule;
+		}
+
+		return getTotal(products);
+	}
+
+	/**
+	 * Returns the leg rule of the leg: the rule with the highest priority, then the most specific one, then the cheapest.
+	 */
+	private getLegRule(leg: TimetableLeg): FareLegRule | null {
+		const network = this.fares.networks[leg.trip.routeId];
+		const originAreas = this.getAreas(leg.origin);
+		const destinationAreas = this.getAreas(leg.destination);
+
+		const rules = this.fares.legRules
+			.filter(rule =>
+				this.products[rule.fareProductId]
+				&& (!rule.networkId || rule.networkId === network)
+				&& (!rule.fromAreaId || originAreas.includes(rule.fromAreaId))
+				&& (!rule.toAreaId || destinationAreas.includes(rule.toAreaId))
+			)
+			.sort((a, b) =>
+				b.rulePriority - a.rulePriority
+				|| getSpecificity(b) - getSpecificity(a)
+				|| this.products[a.fareProductId].amount - this.products[b.fareProductId].amount
+			);
+
+		return rules[0] || null;
+	}
+
+	/**
+	 * Returns the transfer rule allowing to go from the previous leg to the next one, if any.
+	 */
+	private getTransferRule(
+		fromRule: FareLegRule,
+		toRule: FareLegRule,
+		transfers: number,
+		previousLeg: TimetableLeg,
+		nextLeg: TimetableLeg
+	): FareTransferRule | null {
+		return this.fares.transferRules.find(rule =>
+			(!rule.fromLegGroupId || rule.fromLegGroupId === fromRule.legGroupId)
+			&& (!rule.toLegGroupId || rule.toLegGroupId === toRule.legGroupId)
+			&& (rule.transferCount === null || transfers < rule.transferCount)
+			&& (rule.durationLimit === null || getTransferDuration(rule, previousLeg, nextLeg) <= rule.durationLimit)
+		) || null;
+	}
+
+	/**
+	 * Returns the rank of a price of a product, the lowest is used: the prices of the default rider category (or of
+	 * no rider category) first, then the prices without fare media.
+	 */
+	private getPriceRank(product: FareProduct): number {
+		const defaultRiderCategory = !product.riderCategoryId || this.fares.defaultRiderCategories.includes(product.riderCategoryId);
+
+		return (defaultRiderCategory ? 0 : 2) + (product.fareMediaId ? 1 : 0);
+	}
+
+	/**
+	 * Returns the areas of a stop, including the areas of its parent station.
+	 */
+	private getAreas(stopId: StopID): string[] {
+		const parentStation = this.stops[stopId]?.parentStation;
+
+		return [
+			...(this.fares.areas[stopId] || []),
+			...(parentStation ? this.fares.areas[parentStation] || [] : []),
+		];
+	}
+}
+
+/**
+ * Returns the duration checked against the duration limit of a transfer rule, measured from the leg the transfer
+ * is made from as in the GTFS specification.
+ */
+function getTransferDuration(rule: FareTransferRule, previousLeg: TimetableLeg, nextLeg: TimetableLeg): number {
+	switch (rule.durationLimitType) {
+		case 1:
+			return getLegDepartureTime(nextLeg) - getLegDepartureTime(previousLeg);
+		case 2:
+			return getLegDepartureTime(nextLeg) - getLegArrivalTime(previousLeg);
+		case 3:
+			return getLegArrivalTime(nextLeg) - getLegArrivalTime(previousLeg);
+		default:
+			return getLegArrivalTime(nextLeg) - getLegDepartureTime(previousLeg);
+	}
+}
+
+/**
+ * Number of fields of the leg rule that are not empty
+ */
+function getSpecificity(rule: FareLegRule): number {
+	return [rule.networkId, rule.fromAreaId, rule.toAreaId].filter(field => field !== "").length;
+}
+
+function getLegDepartureTime(leg: TimetableLeg): Time {
+	return leg.stopTimes[0].departureTime;
+}
+
+function getLegArrivalTime(leg: TimetableLeg): Time {
+	return leg.stopTimes[leg.stopTimes.length - 1].arrivalTime;
+}
+
+/**
+ * Sums the products, rounded to the cent.
+ */
+function getTotal(products: FareProduct[]): Fare {
+	const price = products.reduce((total, product) => total + product.amount, 0);
+
+	return {
+		price: Math.round(price * 100) / 100,
+		currency: products[0]?.currency || "EUR",
+		products,
+	};
+}
@@ -0,0 +1,73 @@
+import Flatbush from 'flatbush';
+import { FeatureCollection, LineString } from 'geojson';
+import PathFinder from 'geojson-path-finder';
+import haversine from 'haversine-distance';
+import { Coords } from 'src/interfaces';
+import { calcDistancePath, getProjectedPath } from './PathUtils';
+import { buildFlatbushIndex } from './SpatialIndex';
+
+const METERS_PER_DEGREE = 111320; // Length of a degree of latitude (in meters)
+
+/**
+ * Walk between two physical stops over the pedestrian network, the same in both directions.
+ */
+export interface Footpath {
+    from: string;
+    to: string;
+    distance: number; // in meters
+}
+
+/**
+ * Finds every pair of stops that are at most `radius` meters apart when walking on the pedestrian network.
+ * The candidates are first selected with a Flatbush index and the straight line distance, which is never
+ * longer than the walk, so the path finder only runs for nearby stops.
+ *
+ * @param stops - The physical stops with their coordinates.
+ * @param routes - A GeoJSON FeatureCollection containing the LineStrings of the pedestrian network.
+ * @param radius - The maximum walking distance (in meters).
+ *
+ * @returns One footpath for each pair of stops.
+ */
+export function generateFootpaths(stops: [string, Coords][], routes: FeatureCollection<LineString>, radius: number): Footpath[] {
+    if (stops.length === 0) {
+        return [];
+    }
+
+    const pathFinder = new PathFinder(routes, { tolerance: 0.00001 });
+    const lineIndex = buildFlatbushIndex(routes);
+    const stopIndex = new Flatbush(stops.length);
+    for (const [, coords] of stops) {
+        stopIndex.add(coords.longitude, coords.latitude, coords.longitude, coords.latitude);
+    }
+    stopIndex.finish();
+
+    const footpaths: Footpath[] = [];
+    stops.forEach(([from, fromCoords], i) => {
+        const latitudeRadius = radius / METERS_PER_DEGREE;
+        const longitudeRadius = latitudeRadius / Math.cos(fromCoords.latitude * Math.PI / 180);
+        const candidates = stopIndex.search(
+            fromCoords.longitude - longitudeRadius,
+            fromCoords.latitude - latitudeRadius,
+            fromCoords.longitude + longitudeRadius,
+            fromCoords.latitude + latitudeRadius
+        );
+
+        for (const j of candidates) {
+            // Each pair is only computed once
+            if (j <= i) continue;
+
+            const [to, toCoords] = stops[j];
+            if (haversine(fromCoords, toCoords) > radius) continue;
+
+            const path = getProjectedPath(fromCoords, toCoords, routes, lineIndex, pathFinder);
+            if (!path) continue;
+
+            const distance = calcDistancePath(path);
+            if (distance <= radius) {
+                footpaths.push({ from, to, distance });
+            }
+        }
+    });
+
+    return footpaths;
+}
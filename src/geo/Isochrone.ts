@@ -0,0 +1,194 @@
+import { concave, convex, featureCollection, point } from '@turf/turf';
+import Flatbush from 'flatbush';
+import { Feature, FeatureCollection, LineString, MultiPolygon, Polygon } from 'geojson';
+import haversine from 'haversine-distance';
+import { Coords } from 'src/interfaces';
+import { WALKING_SPEED } from '../utils/FormatUtils';
+
+/**
+ * Pedestrian graph built from the routes GeoJSON, nodes are the coordinates of the LineStrings.
+ */
+export interface WalkGraph {
+    nodes: [number, number][];
+    edges: [number, number][][]; // [node, distance in meters] by node
+    index: Flatbush;
+}
+
+/**
+ * Place from which the walk starts, with the time already spent to reach it (in seconds).
+ */
+export interface WalkSource {
+    coords: Coords;
+    time: number;
+}
+
+/**
+ * Builds the pedestrian graph of the routes GeoJSON.
+ *
+ * @param geojson - A GeoJSON FeatureCollection containing LineString features.
+ *
+ * @returns The graph, with a spatial index of its nodes.
+ */
+export function buildWalkGraph(geojson: FeatureCollection<LineString>): WalkGraph {
+    const nodes: [number, number][] = [];
+    const edges: [number, number][][] = [];
+    const nodeIds = new Map<string, number>();
+
+    const getNode = (position: number[]): number => {
+        const key = `${position[0]},${position[1]}`;
+        if (!nodeIds.has(key)) {
+            nodeIds.set(key, nodes.length);
+            nodes.push([position[0], position[1]]);
+            edges.push([]);
+        }
+        return nodeIds.get(key)!;
+    };
+
+    for (const feature of geojson.features) {
+        const coordinates = feature.geometry.coordinates;
+
+        for (let i = 0; i < coordinates.length - 1; i++) {
+            const from = getNode(coordinates[i]);
+            const to = getNode(coordinates[i + 1]);
+            const distance = haversine(toLatLng(nodes[from]), toLatLng(nodes[to]));
+
+            edges[from].push([to, distance]);
+            edges[to].push([from, distance]);
+        }
+    }
+
+    const index: Flatbush = new Flatbush(Math.max(nodes.length, 1));
+    for (const [longitude, latitude] of nodes) {
+        index.add(longitude, latitude, longitude, latitude);
+    }
+    if (nodes.length === 0) {
+        index.add(0, 0, 0, 0);
+    }
+    index.finish();
+
+    return { nodes, edges, index };
+}
+
+/**
+ * Walks from every source at once (multi-source Dijkstra) and returns the time needed to reach each node of the graph.
+ *
+ * @param graph - The pedestrian graph.
+ * @param sources - The places from which the walk starts.
+ * @param budget - The maximum time (in seconds), nodes reached later are not explored.
+ *
+ * @returns The time to reach each node, Infinity when the node is out of budget.
+ */
+export function getWalkTimes(graph: WalkGraph, sources: WalkSource[], budget: number): Float64Array {
+    const times = new Float64Array(graph.nodes.length).fill(Infinity);
+    const queue = new NodeQueue();
+
+    for (const source of sources) {
+        const [node] = graph.index.neighbors(source.coords.longitude, source.coords.latitude, 1);
+        if (node === undefined || node >= graph.nodes.length) continue;
+
+        const time = source.time + haversine(source.coords, toLatLng(graph.nodes[node])) / WALKING_SPEED;
+        if (time <= budget && time < times[node]) {
+            times[node] = time;
+            queue.push(node, time);
+        }
+    }
+
+    while (queue.length > 0) {
+        const [node, time] = queue.pop();
+        if (time > times[node]) continue;
+
+        for (const [next, distance] of graph.edges[node]) {
+            const nextTime = time + distance / WALKING_SPEED;
+            if (nextTime <= budget && nextTime < times[next]) {
+                times[next] = nextTime;
+                queue.push(next, nextTime);
+            }
+        }
+    }
+
+    return times;
+}
+
+/**
+ * Draws a polygon around the nodes reached within each time band.
+ *
+ * @param graph - The pedestrian graph.
+ * @param times - The time to reach each node.
+ * @param bands - The time bands (in seconds).
+ *
+ * @returns A polygon per band, with the band in minutes as property. Bands with too few nodes are left out.
+ */
+export function getIsochronePolygons(
+    graph: WalkGraph,
+    times: Float64Array,
+    bands: number[]
+): FeatureCollection<Polygon | MultiPolygon, { minutes: number }> {
+    const features: Feature<Polygon | MultiPolygon, { minutes: number }>[] = [];
+
+    for (const band of bands) {
+        const points = featureCollection(
+            graph.nodes.filter((_, node) => times[node] <= band).map(position => point(position))
+        );
+        if (points.features.length < 3) continue;
+
+        const hull = concave(points, { maxEdge: 0.5, units: 'kilometers' }) || convex(points);
+        if (hull) {
+            features.push({ ...hull, properties: { minutes: band / 60 } });
+        }
+    }
+
+    return { type: 'FeatureCollection', features };
+}
+
+function toLatLng(position: [number, number]): Coords {
+    return { latitude: position[1], longitude: position[0] };
+}
+
+/**
+ * Binary heap of nodes ordered by time
+ */
+class NodeQueue {
+    private readonly heap: [number, number][] = [];
+
+    public get length(): number {
+        return this.heap.length;
+    }
+
+    public push(node: number, time: number): void {
+        this.heap.push([node, time]);
+
+        let i = this.heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.heap[parent][1] <= this.heap[i][1]) break;
+
+            [this.heap[parent], this.heap[i]] = [this.heap[i], this.heap[parent]];
+            i = parent;
+        }
+    }
+
+    public pop(): [number, number] {
+        const top = this.heap[0];
+        const last = this.heap.pop()!;
+
+        if (this.heap.length > 0) {
+            this.heap[0] = last;
+
+            let i = 0;
+            while (true) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+
+                if (left < this.heap.length && this.heap[left][1] < this.heap[smallest][1]) smallest = left;
+                if (right < this.heap.length && this.heap[right][1] < this.heap[smallest][1]) smallest = right;
+                if (smallest === i) break;
+
+                [this.heap[smallest], this.heap[i]] = [this.heap[i], this.heap[smallest]];
+                i = smallest;
+            }
+        }
+
+        return top;
+    }
+}
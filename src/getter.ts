@@ -3,7 +3,22 @@ import JSZip from 'jszip';
 import Papa from 'papaparse';
 import path from 'path';
 import { formatTransfers } from './transfers_replacement';
-import { Station } from './interfaces';
+import { Coords, Ligne, Station } from './interfaces';
+import { Feed, getFeedFolder, getFeedNetwork, loadFeeds, namespaceRows } from './gtfs/Feeds';
+import { hasErrors, validateGTFS, ValidationIssue } from './gtfs/GTFSValidator';
+import { getGTFSSources, loadGTFS } from './gtfs/GTFSLoader';
+import { timetableSnapshotPath, writeSnapshot } from './gtfs/Snapshot';
+import { generateFootpaths } from './geo/Footpaths';
+import { footpathRadius, maxDays } from './utils/FormatUtils';
+
+/**
+ * Validation report of a feed, written to exports/gtfs_report.json.
+ */
+interface FeedReport {
+    feed: string;
+    published: boolean;
+    issues: ValidationIssue[];
+}
 
 /**
  * Parses a CSV string and writes it to a JSON file.
@@ -11,17 +26,18 @@ import { Station } from './interfaces';
  * @param {string} csvData The CSV data to parse.
  * @param {string} folrderName The name of the folder to save the JSON file in.
  * @param {string} fileName The name of the CSV file.
+ * @param {(rows: any[]) => any[]} transform Changes made to the rows before they are written.
  * 
  * @returns {Promise<void>} A promise that resolves when the parsing and writing process is complete.
  */
-async function parseAndSaveCSV(csvData: string, folrderName: string, fileName: string): Promise<void> {
+async function parseAndSaveCSV(csvData: string, folrderName: string, fileName: string, transform: (rows: any[]) => any[] = rows => rows): Promise<void> {
     return new Promise((resolve, reject) => {
         Papa.parse(csvData, {
             complete: async (results) => {
                 const exportPath = path.join(__dirname, '..', 'imports', folrderName, `${fileName.split('.')[0]}.json`);
 
                 await fs.mkdir(path.dirname(exportPath), { recursive: true });
-                await fs.writeFile(exportPath, JSON.stringify(results.data));
+                await fs.writeFile(exportPath, JSON.stringify(transform(results.data)));
                 resolve();
             },
             header: true,
@@ -31,36 +47,85 @@ async function parseAndSaveCSV(csvData: string, folrderName: string, fileName: s
 }
 
 /**
- * Extracts selected .txt files in the GTFS zip file, 
- * convert them to .json and writes them to a JSON file.
+ * Extracts selected .txt files in the GTFS zip file of a feed, 
+ * convert them to .json and writes them to a staging folder.
+ * The IDs of the feeds other than the main one are namespaced with the feed ID.
+ * The feed is then validated, and only published (moved to its imports folder) if no critical rule is broken:
+ * a rejected feed is left in the staging folder and the previously published one is kept.
+ *
+ * @param {Feed} feed The feed to download.
+ * @param {Feed[]} feeds All the feeds, the main one first.
  *
- * @returns {Promise<void>} A promise that resolves when the process is complete.
+ * @returns {Promise<FeedReport>} A promise that resolves with the validation report of the feed.
  */
-export async function downloadStaticGTFS(): Promise<void> {
-    try {
-        const response = await fetch("https://data.montpellier3m.fr/sites/default/files/ressources/TAM_MMM_GTFS.zip");
-        const data = await response.arrayBuffer();
-        const dir = './imports/GTFS';
+export async function downloadStaticGTFS(feed: Feed, feeds: Feed[]): Promise<FeedReport> {
+    const response = await fetch(feed.url);
+    if (!response.ok) {
+        throw new Error(`Téléchargement de ${feed.url} impossible (${response.status})`);
+    }
 
-        await fs.mkdir(dir, { recursive: true });
-        await fs.writeFile('imports/GTFS/gtfs.zip', Buffer.from(data));
+    const data = await response.arrayBuffer();
+    const folder = getFeedFolder(feed, feeds);
+    const stagingFolder = `${folder}_staging`;
+    const dir = `./imports/${stagingFolder}`;
+    const namespace = (file: string) => (rows: any[]) => namespaceRows(rows, file, feed, feeds);
 
-        const zip = new JSZip();
-        const extracted = await zip.loadAsync(data);
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(`${dir}/gtfs.zip`, Buffer.from(data));
 
-        const filesToExtract = ["stops.txt", "trips.txt", "transfers.txt", "routes.txt", "stop_times.txt", "calendar.txt", "calendar_dates.txt"];
+    const zip = new JSZip();
+    const extracted = await zip.loadAsync(data);
 
-        for (const file of filesToExtract) {
-            const csvFile = extracted.files[file];
-            if (!csvFile) {
-                throw new Error(`Fichier ${file} non trouvé dans le ZIP`);
-            }
+    const filesToExtract = ["stops.txt", "trips.txt", "transfers.txt", "routes.txt", "stop_times.txt", "calendar.txt", "calendar_dates.txt"];
 
-            const csvData = await csvFile.async('string');
-            await parseAndSaveCSV(csvData, 'GTFS', file);
+    for (const file of filesToExtract) {
+        const csvFile = extracted.files[file];
+        if (!csvFile) {
+            throw new Error(`Fichier ${file} non trouvé dans le ZIP`);
+        }
+
+        const csvData = await csvFile.async('string');
+        await parseAndSaveCSV(csvData, stagingFolder, file, namespace(file));
+    }
+
+    // Optional files, the staging folder is emptied so a file removed from the GTFS is not kept from a previous download
+    const optionalFilesToExtract = ["frequencies.txt", "fare_attributes.txt", "fare_rules.txt", "fare_products.txt", "fare_leg_rules.txt", "fare_transfer_rules.txt", "rider_categories.txt", "stop_areas.txt", "route_networks.txt"];
+
+    for (const file of optionalFilesToExtract) {
+        const csvFile = extracted.files[file];
+        if (!csvFile) continue;
+
+        const csvData = await csvFile.async('string');
+        await parseAndSaveCSV(csvData, stagingFolder, file, namespace(file));
+    }
+
+    const issues = await validateGTFS(dir, maxDays, `./imports/${folder}`);
+    if (hasErrors(issues)) {
+        return { feed: feed.id, published: false, issues };
+    }
+
+    await fs.rm(`./imports/${folder}`, { recursive: true, force: true });
+    await fs.rename(dir, `./imports/${folder}`);
+    return { feed: feed.id, published: true, issues };
+}
+
+/**
+ * Writes the validation reports of the feeds to exports/gtfs_report.json and logs the feeds that were not published.
+ *
+ * @param {FeedReport[]} reports The reports of the feeds.
+ */
+async function saveReports(reports: FeedReport[]): Promise<void> {
+    await fs.writeFile('exports/gtfs_report.json', JSON.stringify({ generated_at: new Date().toISOString(), feeds: reports }, null, 2));
+
+    for (const report of reports) {
+        const errors = report.issues.filter(issue => issue.severity === 'error');
+        const warnings = report.issues.length - errors.length;
+        if (report.published) {
+            console.log(`Feed ${report.feed} published (${warnings} warnings).`);
+        } else {
+            console.error(`Feed ${report.feed} not published: ${errors.map(issue => `${issue.rule} (${issue.count})`).join(', ')}.`);
         }
-    } catch (error) {
-        return process.exit(1);
     }
 }
 
@@ -76,16 +141,74 @@ async function getAPIData(data: string): Promise<void> {
     }
 }
 
+/**
+ * Adds the stations and lignes of the feeds other than the main one to those of the Montpellier Transports API,
+ * so that they can be searched and shown like the TaM ones.
+ *
+ * @param {Feed[]} feeds All the feeds, the main one first.
+ */
+async function addFeedNetworks(feeds: Feed[]): Promise<void> {
+    const stations: Record<string, Station> = JSON.parse(await fs.readFile('exports/stations.json', 'utf-8'));
+    const lignes: Record<string, Ligne> = JSON.parse(await fs.readFile('exports/lignes.json', 'utf-8'));
+
+    for (const feed of feeds.slice(1)) {
+        const [feedStations, feedLignes] = await getFeedNetwork(getFeedFolder(feed, feeds));
+        Object.assign(stations, feedStations);
+        Object.assign(lignes, feedLignes);
+        console.log(`${Object.keys(feedStations).length} stations added from feed ${feed.id}.`);
+    }
+
+    await fs.writeFile('exports/stations.json', JSON.stringify(stations));
+    await fs.writeFile('exports/lignes.json', JSON.stringify(lignes));
+}
+
 async function startGetter(): Promise<void> {
-    await Promise.all([
-        downloadStaticGTFS(),
+    const feeds = await loadFeeds();
+    const [reports] = await Promise.all([
+        Promise.all(feeds.map(feed => downloadStaticGTFS(feed, feeds).catch((error): FeedReport => ({
+            feed: feed.id,
+            published: false,
+            issues: [{ rule: 'download', severity: 'error', file: feed.url, message: `${error}`, count: 1, examples: [] }]
+        })))),
         getAPIData('stations'),
         getAPIData('lignes')
     ]);
+    await saveReports(reports);
+
+    // A rejected feed is replaced by its previous version, if there is none the datas cannot be built
+    if (reports.some(report => !report.published)) {
+        process.exitCode = 1;
+
+        for (const feed of feeds) {
+            try {
+                await fs.access(`imports/${getFeedFolder(feed, feeds)}/trips.json`);
+            } catch (error) {
+                console.error(`No valid version of feed ${feed.id}, see exports/gtfs_report.json.`);
+                return;
+            }
+        }
+    }
+
+    if (feeds.length > 1) {
+        await addFeedNetworks(feeds);
+    }
 
     const stationsData = await fs.readFile('exports/stations.json', 'utf-8');
     const stations = new Map<string, Station>(Object.entries(JSON.parse(stationsData)));
-    formatTransfers(stations);
+
+    // Walks between nearby stops, of the same feed or not, the radius can be changed with FOOTPATH_RADIUS (in meters)
+    const routes = JSON.parse(await fs.readFile('datas/routes.geojson', 'utf-8'));
+    const stops: [string, Coords][] = [...stations.values()].flatMap(station =>
+        Object.entries(station.physical_stops).map(([stopId, stop]): [string, Coords] => [stopId, stop.coords])
+    );
+    const footpaths = generateFootpaths(stops, routes, +process.env.FOOTPATH_RADIUS || footpathRadius);
+    console.log(`${footpaths.length} footpaths generated.`);
+
+    await formatTransfers(stations, footpaths);
+
+    // Precompiled timetable read by the API at startup instead of the GTFS files
+    await writeSnapshot(timetableSnapshotPath, await loadGTFS(), await getGTFSSources());
+    console.log(`Timetable snapshot written to ${timetableSnapshotPath}.`);
 
     console.log("Data downloaded successfully.");
 }
@@ -0,0 +1,164 @@
+import { StopTime, TimetableLeg, Trip, TripID } from "./GTFS";
+
+/**
+ * Joins the consecutive trips of each block into continuation trips, so that passengers staying on the vehicle at
+ * the end of a trip are not asked to change (and wait the interchange time).
+ *
+ * Two trips are joined when they have the same service_id, the second one departs from the last stop of the first
+ * one, and not before the first one arrives. The joined trip only runs on the days both trips run, as their realtime
+ * updates or disruptions may restrict them differently. Each pair of trips is joined, and the trips that continue no
+ * other trip are joined with all the trips following them, so that passengers can stay on board across several
+ * junctions. The trips themselves are kept for the passengers who only ride one of them. The in-seat transfers of
+ * transfers.txt also join trips of different blocks (type 4), or prevent the trips of a block from being joined
+ * (type 5).
+ *
+ * @param trips - The trips given to the RAPTOR algorithm.
+ *
+ * @returns The continuation trips.
+ */
+export function getBlockContinuations(trips: Trip[]): Trip[] {
+	const tripsByBlock: Record<string, Trip[]> = {};
+	const tripsById: Record<TripID, Trip[]> = {};
+	for (const trip of trips) {
+		if (!trip.stopTimes || trip.stopTimes.length === 0) continue;
+
+		tripsById[trip.id] = tripsById[trip.id] || [];
+		tripsById[trip.id].push(trip);
+
+		if (trip.blockId) {
+			tripsByBlock[trip.blockId] = tripsByBlock[trip.blockId] || [];
+			tripsByBlock[trip.blockId].push(trip);
+		}
+	}
+
+	const nextTrips = new Map<Trip, Trip[]>();
+	const addNextTrips = (first: Trip, seconds: Trip[]) => {
+		const next = nextTrips.get(first) || [];
+		next.push(...seconds.filter(second => !next.includes(second)));
+		if (next.length > 0) {
+			nextTrips.set(first, next);
+		}
+	};
+
+	for (const blockTrips of Object.values(tripsByBlock)) {
+		blockTrips.sort((a, b) => a.stopTimes[0].departureTime - b.stopTimes[0].departureTime);
+
+		for (let i = 0; i < blockTrips.length - 1; i++) {
+			const first = blockTrips[i];
+			const next = blockTrips.slice(i + 1).find(trip => trip.id !== first.id && trip.serviceId === first.serviceId);
+
+			if (next && first.inSeatTransfers[next.id] !== false) {
+				addNextTrips(first, getContinuingTrips(first, tripsById[next.id]));
+			}
+		}
+	}
+
+	for (const first of Object.values(tripsById).flat()) {
+		for (const [tripId, allowed] of Object.entries(first.inSeatTransfers)) {
+			if (allowed) {
+				addNextTrips(first, getContinuingTrips(first, tripsById[tripId] || []));
+			}
+		}
+	}
+
+	const continued = new Set([...nextTrips.values()].flat());
+	const results: Trip[] = [];
+	for (const [first, seconds] of nextTrips) {
+		for (const second of seconds) {
+			const pair = joinTrips(first, second);
+			results.push(pair);
+
+			if (!continued.has(first)) {
+				results.push(...joinNextTrips(pair, [first, second], nextTrips));
+			}
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Returns the copies of a trip continuing the first one, its realtime or disrupted copies run on different days. The
+ * runs of a trip of frequencies.txt are not told apart, only the first run continuing the trip is kept.
+ */
+function getContinuingTrips(first: Trip, candidates: Trip[]): Trip[] {
+	const seconds = candidates
+		.filter(trip => trip.serviceId === first.serviceId && isContinuation(first, trip))
+		.sort((a, b) => a.stopTimes[0].departureTime - b.stopTimes[0].departureTime);
+
+	return seconds.filter(trip => trip.startTime === seconds[0].startTime);
+}
+
+/**
+ * Joins the joined trips with the trips continuing its last trip, until the end of the block. Only the longest chains
+ * are returned, as they can be ridden from or to any of their stops.
+ */
+function joinNextTrips(joined: Trip, chain: Trip[], nextTrips: Map<Trip, Trip[]>): Trip[] {
+	const seconds = (nextTrips.get(chain[chain.length - 1]) || []).filter(second => !chain.includes(second));
+	if (seconds.length === 0) {
+		return chain.length > 2 ? [joined] : [];
+	}
+
+	return seconds.flatMap(second => joinNextTrips(joinTrips(joined, second), [...chain, second], nextTrips));
+}
+
+/**
+ * Splits a leg on a continuation trip into the legs on each trip of the block. The legs of other trips are returned
+ * unchanged.
+ */
+export function splitBlockContinuation(leg: TimetableLeg): TimetableLeg[] {
+	const continuation = leg.trip.continuation;
+	const start = continuation ? leg.trip.stopTimes.indexOf(leg.stopTimes[0]) : -1;
+	if (!continuation || start === -1) {
+		return [leg];
+	}
+
+	// the first trip of a chain is itself a continuation trip
+	const end = start + leg.stopTimes.length - 1;
+	if (end <= continuation.junction) {
+		return splitBlockContinuation({ ...leg, trip: continuation.first });
+	}
+	if (start >= continuation.junction) {
+		return [{ ...leg, trip: continuation.second }];
+	}
+
+	return [
+		...splitBlockContinuation(toLeg(leg.stopTimes.slice(0, continuation.junction - start + 1), continuation.first)),
+		toLeg(leg.stopTimes.slice(continuation.junction - start), continuation.second),
+	];
+}
+
+function isContinuation(first: Trip, second: Trip): boolean {
+	const lastStopTime = first.stopTimes[first.stopTimes.length - 1];
+	const firstStopTime = second.stopTimes[0];
+
+	return lastStopTime.stopId === firstStopTime.stopId && lastStopTime.arrivalTime <= firstStopTime.departureTime;
+}
+
+/**
+ * Joins the two trips, the junction stop time takes its arrival from the first trip and its departure from the second.
+ */
+function joinTrips(first: Trip, second: Trip): Trip {
+	const lastStopTime = first.stopTimes[first.stopTimes.length - 1];
+	const junction: StopTime = {
+		...lastStopTime,
+		departureTime: second.stopTimes[0].departureTime,
+		pickUp: second.stopTimes[0].pickUp,
+	};
+
+	return {
+		...first,
+		stopTimes: [...first.stopTimes.slice(0, -1), junction, ...second.stopTimes.slice(1)],
+		service: first.service.intersect(second.service),
+		continuation: { first, second, junction: first.stopTimes.length - 1 },
+	};
+}
+
+function toLeg(stopTimes: StopTime[], trip: Trip): TimetableLeg {
+	return {
+		origin: stopTimes[0].stopId,
+		destination: stopTimes[stopTimes.length - 1].stopId,
+		stopTimes,
+		trip,
+	};
+}
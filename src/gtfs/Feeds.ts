@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import { Ligne, Station } from '../interfaces';
+
+/**
+ * GTFS feed combined in the network, e.g. the TaM feed and the regional coaches and trains
+ */
+export interface Feed {
+	id: string;
+	name?: string;
+	url: string;
+}
+
+// Feed used when no feed definition file is given
+export const defaultFeed: Feed = {
+	id: 'tam',
+	name: 'TaM',
+	url: 'https://data.montpellier3m.fr/sites/default/files/ressources/TAM_MMM_GTFS.zip',
+};
+
+// ID columns of each GTFS file, namespaced for the feeds other than the main one
+const namespacedColumns: Record<string, string[]> = {
+	'stops': ['stop_id', 'parent_station', 'zone_id'],
+	'trips': ['trip_id', 'route_id', 'service_id', 'block_id'],
+	'transfers': ['from_stop_id', 'to_stop_id', 'from_route_id', 'to_route_id', 'from_trip_id', 'to_trip_id'],
+	'routes': ['route_id', 'network_id'],
+	'stop_times': ['trip_id', 'stop_id'],
+	'calendar': ['service_id'],
+	'calendar_dates': ['service_id'],
+	'frequencies': ['trip_id'],
+	'fare_attributes': ['fare_id'],
+	'fare_rules': ['fare_id', 'route_id', 'origin_id', 'destination_id', 'contains_id'],
+	'fare_products': ['fare_product_id', 'rider_category_id', 'fare_media_id'],
+	'fare_leg_rules': ['leg_group_id', 'network_id', 'from_area_id', 'to_area_id', 'fare_product_id'],
+	'fare_transfer_rules': ['from_leg_group_id', 'to_leg_group_id', 'fare_product_id'],
+	'rider_categories': ['rider_category_id'],
+	'stop_areas': ['area_id', 'stop_id'],
+	'route_networks': ['route_id', 'network_id'],
+};
+
+/**
+ * Reads the feed definition file. The first feed is the main one: its IDs are kept as they are, as they are the IDs
+ * of the stations and lignes of the Montpellier Transports API. The IDs of the other feeds are prefixed with the feed
+ * ID (e.g. "ter:87773002") so that they cannot collide. A missing file means there is only the TaM feed.
+ *
+ * @param path - The path of the feed definition file.
+ *
+ * @returns The feeds, the main one first.
+ */
+export async function loadFeeds(path: string = 'datas/feeds.json'): Promise<Feed[]> {
+	let content: string;
+	try {
+		content = await fs.readFile(path, 'utf-8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [defaultFeed];
+		}
+		throw error;
+	}
+
+	const feeds: Feed[] = JSON.parse(content);
+	const ids = new Set<string>();
+	for (const feed of feeds) {
+		if (!feed.id || !/^[\w-]+$/.test(feed.id) || ids.has(feed.id) || !feed.url) {
+			throw new Error(`Invalid feed ${JSON.stringify(feed)}`);
+		}
+		ids.add(feed.id);
+	}
+	if (feeds.length === 0) {
+		throw new Error('No feed defined');
+	}
+	return feeds;
+}
+
+/**
+ * Returns the folder of the imports where the JSON files of the feed are written.
+ */
+export function getFeedFolder(feed: Feed, feeds: Feed[]): string {
+	return feed === feeds[0] ? 'GTFS' : `GTFS_${feed.id}`;
+}
+
+/**
+ * Prefixes the IDs of the rows of a GTFS file with the feed ID, the rows of the main feed are returned unchanged.
+ *
+ * @param rows - The rows of the file.
+ * @param fileName - The name of the GTFS file, e.g. "stops.txt".
+ * @param feed - The feed of the file.
+ * @param feeds - All the feeds.
+ *
+ * @returns The rows with their IDs namespaced.
+ */
+export function namespaceRows(rows: Record<string, string>[], fileName: string, feed: Feed, feeds: Feed[]): Record<string, string>[] {
+	const columns = namespacedColumns[fileName.split('.')[0]] || [];
+	if (feed === feeds[0] || columns.length === 0) {
+		return rows;
+	}
+
+	for (const row of rows) {
+		for (const column of columns) {
+			if (row[column]) {
+				row[column] = `${feed.id}:${row[column]}`;
+			}
+		}
+	}
+	return rows;
+}
+
+/**
+ * Builds the stations and lignes of a feed that is not covered by the Montpellier Transports API, from its GTFS files.
+ * The stops of a parent station are the physical stops of a single station, the other stops are stations on their own.
+ *
+ * @param folder - The folder of the imports of the feed, its IDs are already namespaced.
+ *
+ * @returns The stations and the lignes, indexed by ID.
+ */
+export async function getFeedNetwork(folder: string): Promise<[Record<string, Station>, Record<string, Ligne>]> {
+	const [stopsRaw, routesRaw, tripsRaw, stopTimesRaw] = await Promise.all(
+		['stops', 'routes', 'trips', 'stop_times'].map(file => fs.readFile(`imports/${folder}/${file}.json`, 'utf-8').then(JSON.parse))
+	);
+
+	const lignes: Record<string, Ligne> = {};
+	for (const row of routesRaw) {
+		if (!row.route_id) continue;
+
+		lignes[row.route_id] = {
+			numero: row.route_short_name || row.route_long_name || row.route_id,
+			couleur: row.route_color ? `#${row.route_color}` : '#000000',
+			text_couleur: row.route_text_color ? `#${row.route_text_color}` : '#FFFFFF',
+			type: +row.route_type,
+			directions: {},
+		};
+	}
+
+	const routeByTrip: Record<string, string> = {};
+	for (const row of tripsRaw) {
+		routeByTrip[row.trip_id] = row.route_id;
+	}
+
+	const lignesByStop: Record<string, Set<string>> = {};
+	for (const row of stopTimesRaw) {
+		const routeId = routeByTrip[row.trip_id];
+		if (!row.stop_id || !routeId) continue;
+
+		lignesByStop[row.stop_id] = lignesByStop[row.stop_id] || new Set();
+		lignesByStop[row.stop_id].add(routeId);
+	}
+
+	const stopsById: Record<string, any> = {};
+	for (const row of stopsRaw) {
+		stopsById[row.stop_id] = row;
+	}
+
+	const stations: Record<string, Station> = {};
+	for (const row of stopsRaw) {
+		if (!lignesByStop[row.stop_id]) continue;
+
+		const parent = stopsById[row.parent_station] || row;
+		stations[parent.stop_id] = stations[parent.stop_id] || {
+			nom: parent.stop_name,
+			coords: { latitude: +parent.stop_lat, longitude: +parent.stop_lon },
+			physical_stops: {},
+		};
+		stations[parent.stop_id].physical_stops[row.stop_id] = {
+			coords: { latitude: +row.stop_lat, longitude: +row.stop_lon },
+			station_code: row.stop_code || '',
+			wheelchair_boarding: +row.wheelchair_boarding || 0,
+			linked_lignes: [...lignesByStop[row.stop_id]],
+		};
+	}
+
+	return [stations, lignes];
+}
+
+/**
+ * Converts a GTFS ID to the ID given by the API: the IDs of the main feed are numbers, as in the Montpellier
+ * Transports API, the namespaced IDs of the other feeds are kept as strings.
+ */
+export function toApiId(id: string): number | string {
+	return /^\d+$/.test(id) ? Number(id) : id;
+}
@@ -0,0 +1,58 @@
+import { Frequency, Trip, TripID } from "./GTFS";
+
+/**
+ * Replaces the trips described by frequencies.txt with a trip for each departure. The stop_times of such a trip are a
+ * template: only the time between the stops is used, the first departure is moved to each departure of the frequency.
+ *
+ * The departures are start_time + n * headway_secs. With exact_times=0 the vehicles are only known to pass every
+ * headway, so the runs keep their headway: it is added to the time to change from or to them, and the journeys never
+ * rely on a connection that may be missed.
+ *
+ * The expanded trips keep the ID of the template so that they can still be matched to the GTFS, each run is told
+ * apart by its start time, as in the start_time of the GTFS-Realtime updates.
+ *
+ * @param trips - The trips of trips.txt, with their stop times.
+ * @param frequencies - The rows of frequencies.txt.
+ *
+ * @returns The trips with the frequency based trips expanded.
+ */
+export function expandFrequencies(trips: Trip[], frequencies: Frequency[]): Trip[] {
+	if (frequencies.length === 0) {
+		return trips;
+	}
+
+	const frequenciesByTrip: Record<TripID, Frequency[]> = {};
+	for (const frequency of frequencies) {
+		frequenciesByTrip[frequency.tripId] = frequenciesByTrip[frequency.tripId] || [];
+		frequenciesByTrip[frequency.tripId].push(frequency);
+	}
+
+	const results: Trip[] = [];
+	for (const trip of trips) {
+		const tripFrequencies = frequenciesByTrip[trip.id];
+		if (!tripFrequencies || !trip.stopTimes || trip.stopTimes.length === 0) {
+			results.push(trip);
+			continue;
+		}
+
+		const templateDeparture = trip.stopTimes[0].departureTime;
+		for (const frequency of tripFrequencies) {
+			for (let departure = frequency.startTime; departure < frequency.endTime; departure += frequency.headway) {
+				const shift = departure - templateDeparture;
+
+				results.push({
+					...trip,
+					startTime: departure,
+					headway: frequency.exactTimes ? undefined : frequency.headway,
+					stopTimes: trip.stopTimes.map(stopTime => ({
+						...stopTime,
+						arrivalTime: stopTime.arrivalTime + shift,
+						departureTime: stopTime.departureTime + shift,
+					})),
+				});
+			}
+		}
+	}
+
+	return results;
+}
@@ -46,12 +46,16 @@ export interface TimetableLeg extends Leg {
 }
 
 /**
- * Leg with a duration instead of departure and arrival time
+ * Leg with a duration instead of departure and arrival time. The transfer can only be used on its days, with an arrival
+ * between its start and end time. The distance is the length of the walk, 0 when it has no footpath (within a station
+ * or given by transfers.txt).
  */
 export interface Transfer extends Leg {
   duration: Duration;
+  distance: number;
   startTime: Time;
   endTime: Time;
+  days: Record<DayOfWeek, boolean>;
   transferType: string;
 }
 
@@ -66,7 +70,10 @@ export type TripID = string;
 export type ServiceID = string;
 
 /**
- * GTFS trip
+ * GTFS trip. Realtime is set when the stop times come from a GTFS-Realtime update, continuation is set when the trip
+ * is made of two trips of the same block. The in-seat transfers of transfers.txt tell which trips can (type 4) or
+ * cannot (type 5) be reached by staying on the vehicle. The feed ID tells which GTFS feed the trip comes from. The
+ * start time is set on the runs expanded from frequencies.txt, with their headway when they are not at an exact time.
  */
 export interface Trip {
   id: TripID;
@@ -75,6 +82,25 @@ export interface Trip {
   stopTimes: StopTime[];
   serviceId: ServiceID;
   service: Service;
+  headsign: string;
+  blockId: string;
+  wheelchairAccessible: string;
+  inSeatTransfers: Record<TripID, boolean>;
+  feedId: string;
+  realtime?: boolean;
+  continuation?: BlockContinuation;
+  startTime?: Time;
+  headway?: Duration;
+}
+
+/**
+ * Two trips of the same block (or of an in-seat transfer) joined into a single trip, passengers can stay seated at the junction stop (the index
+ * of the stop time where the second trip starts)
+ */
+export interface BlockContinuation {
+  first: Trip;
+  second: Trip;
+  junction: number;
 }
 
 /**
@@ -121,6 +147,7 @@ export interface Stop {
   locationType: string,
   parentStation: string,
   wheelchairBoarding: string,
+  zoneId: string,
 }
 
 /**
@@ -138,4 +165,87 @@ export interface Route {
 	type: string;
 	color: string;
 	textColor: string;
-}
\ No newline at end of file
+}
+/**
+ * GTFS frequency, departures of a trip every headway from the start time until the end time
+ */
+export interface Frequency {
+	tripId: TripID;
+	startTime: Time;
+	endTime: Time;
+	headway: Duration;
+	exactTimes: boolean;
+}
+
+/**
+ * GTFS fare attribute (Fares v1)
+ */
+export interface FareAttribute {
+	fareId: string;
+	price: number;
+	currency: string;
+	transfers: number | null; // null when unlimited
+	transferDuration: Duration | null; // null when unlimited
+}
+
+/**
+ * GTFS fare rule (Fares v1), empty fields match any route or zone
+ */
+export interface FareRule {
+	fareId: string;
+	routeId: string;
+	originId: string;
+	destinationId: string;
+	containsId: string;
+}
+
+/**
+ * GTFS fare product (Fares v2), empty rider category and fare media when the price is not restricted to one
+ */
+export interface FareProduct {
+	id: string;
+	name: string;
+	amount: number;
+	currency: string;
+	riderCategoryId: string;
+	fareMediaId: string;
+}
+
+/**
+ * GTFS fare leg rule (Fares v2), empty fields match any network or area
+ */
+export interface FareLegRule {
+	legGroupId: string;
+	networkId: string;
+	fromAreaId: string;
+	toAreaId: string;
+	fareProductId: string;
+	rulePriority: number;
+}
+
+/**
+ * GTFS fare transfer rule (Fares v2)
+ */
+export interface FareTransferRule {
+	fromLegGroupId: string;
+	toLegGroupId: string;
+	transferCount: number | null; // null when unlimited
+	durationLimit: Duration | null; // null when unlimited
+	durationLimitType: number;
+	fareTransferType: number;
+	fareProductId: string;
+}
+
+/**
+ * Fares of the GTFS, with the networks of the routes and the areas of the stops used by the Fares v2 leg rules
+ */
+export interface FareData {
+	attributes: FareAttribute[];
+	rules: FareRule[];
+	products: FareProduct[];
+	legRules: FareLegRule[];
+	transferRules: FareTransferRule[];
+	defaultRiderCategories: string[];
+	networks: Record<string, string>;
+	areas: Record<StopID, string[]>;
+}
@@ -1,10 +1,13 @@
-import {Calendar, CalendarIndex, Stop, StopIndex, StopTime, Transfer, Trip} from "./GTFS";
-import {Interchange, TransfersByOrigin} from "../raptor/RaptorAlgorithm";
+import {Calendar, CalendarIndex, DayOfWeek, FareAttribute, Frequency, FareData, FareLegRule, FareProduct, FareRule, FareTransferRule, Stop, StopIndex, StopTime, Transfer, Trip, TripID} from "./GTFS";
+import {Interchange, TIMED_TRANSFER, TransfersByOrigin} from "../raptor/RaptorAlgorithm";
 import {pushNested, setNested } from "../utils/TSUtils";
 import { readFile } from 'fs/promises';
 import { TimeParser } from "./TimeParser";
 import { Service } from "./Service";
+import { expandFrequencies } from "./Frequencies";
 import { MIN_INTERCHANGE_TIME } from "../utils/FormatUtils";
+import { Feed, getFeedFolder, loadFeeds } from "./Feeds";
+import { decodeSnapshot, readSnapshot, timetableSnapshotPath } from "./Snapshot";
 
 export interface GTFSPaths {
 	trips: string;
@@ -13,31 +16,125 @@ export interface GTFSPaths {
 	calendarDates: string;
 	stops: string;
 	stopTimes: string;
+	routes: string;
+	frequencies: string;
+	fareAttributes: string;
+	fareRules: string;
+	fareProducts: string;
+	fareLegRules: string;
+	fareTransferRules: string;
+	riderCategories: string;
+	stopAreas: string;
+	routeNetworks: string;
 }
 
 /**
- * Returns trips, transfers, interchange time and calendars from a GTFS zip.
+ * Returns trips, transfers, interchange time, stops, fares and calendars from the GTFS zips of every feed, merged
+ * into a single network. The IDs of the feeds other than the main one are already namespaced by the getter.
  */
 export async function loadGTFS(): Promise<GTFSData> {
+	const feeds = await loadFeeds();
+	const results: GTFSData[] = [];
+
+	// the feeds are loaded one after the other to limit the memory used by the raw files
+	for (const feed of feeds) {
+		results.push(await loadFeed(feed, getFeedFolder(feed, feeds), feed === feeds[0]));
+	}
+
+	return results.length === 1 ? results[0] : mergeGTFSData(results);
+}
+
+/**
+ * Returns the GTFS data from the snapshot written by the getter, which is much faster to read than the GTFS files,
+ * with the snapshot itself so that it can be shared with worker threads. The GTFS files are used when there is no
+ * snapshot or when it is older than one of them.
+ */
+export async function loadTimetable(): Promise<[GTFSData, Uint8Array | undefined]> {
+	const snapshot = await readSnapshot(timetableSnapshotPath);
+	if (snapshot) {
+		return [decodeSnapshot(snapshot), snapshot];
+	}
+
+	console.warn(`No up to date snapshot in ${timetableSnapshotPath}, the GTFS files are read.`);
+	return [await loadGTFS(), undefined];
+}
+
+/**
+ * Returns the files read by loadGTFS, the snapshot is outdated when one of them changes.
+ */
+export async function getGTFSSources(): Promise<string[]> {
+	const feeds = await loadFeeds();
+	const files = ["trips", "stop_times", "calendar", "calendar_dates", "transfers", "stops", "routes", "frequencies", "fare_attributes",
+		"fare_rules", "fare_products", "fare_leg_rules", "fare_transfer_rules", "rider_categories", "stop_areas", "route_networks"];
+
+	return [
+		"datas/feeds.json",
+		"exports/transfers.json",
+		...feeds.flatMap(feed => files.map(file => `imports/${getFeedFolder(feed, feeds)}/${file}.json`)),
+	];
+}
+
+/**
+ * Returns the GTFS data of a feed. The transfers of the main feed are those formatted by the getter, which also
+ * include the transfers between the feeds, the other feeds use their own transfers.txt if they have one.
+ */
+async function loadFeed(feed: Feed, folder: string, main: boolean): Promise<GTFSData> {
+	const dir = `imports/${folder}`;
 	const paths: GTFSPaths = {
-		trips: 'imports/GTFS/trips.json',
-		stopTimes: 'imports/GTFS/stop_times.json',
-		calendar: 'imports/GTFS/calendar.json',
-		calendarDates: 'imports/GTFS/calendar_dates.json',
-		transfers: 'exports/transfers.json',
-		stops: 'imports/GTFS/stops.json'
+		trips: `${dir}/trips.json`,
+		stopTimes: `${dir}/stop_times.json`,
+		calendar: `${dir}/calendar.json`,
+		calendarDates: `${dir}/calendar_dates.json`,
+		transfers: main ? 'exports/transfers.json' : `${dir}/transfers.json`,
+		stops: `${dir}/stops.json`,
+		routes: `${dir}/routes.json`,
+		frequencies: `${dir}/frequencies.json`,
+		fareAttributes: `${dir}/fare_attributes.json`,
+		fareRules: `${dir}/fare_rules.json`,
+		fareProducts: `${dir}/fare_products.json`,
+		fareLegRules: `${dir}/fare_leg_rules.json`,
+		fareTransferRules: `${dir}/fare_transfer_rules.json`,
+		riderCategories: `${dir}/rider_categories.json`,
+		stopAreas: `${dir}/stop_areas.json`,
+		routeNetworks: `${dir}/route_networks.json`
 	};
 
 	const [tripsRaw, transfersRaw, stopsRaw, calendarsRaw, stopTimesRaw, calendarDatesRaw] = await Promise.all([
 		readFile(paths.trips, "utf-8").then(JSON.parse),
-		readFile(paths.transfers, "utf-8").then(JSON.parse),
+		main ? readFile(paths.transfers, "utf-8").then(JSON.parse) : readOptionalFile(paths.transfers),
 		readFile(paths.stops, "utf-8").then(JSON.parse),
 		readFile(paths.calendar, "utf-8").then(JSON.parse),
 		readFile(paths.stopTimes, "utf-8").then(JSON.parse),
 		readFile(paths.calendarDates, "utf-8").then(JSON.parse),
 	]);
 
+	// Frequencies and fares are optional in a GTFS
+	const [
+		routesRaw,
+		frequenciesRaw,
+		fareAttributesRaw,
+		fareRulesRaw,
+		fareProductsRaw,
+		fareLegRulesRaw,
+		fareTransferRulesRaw,
+		riderCategoriesRaw,
+		stopAreasRaw,
+		routeNetworksRaw
+	] = await Promise.all([
+		readOptionalFile(paths.routes),
+		readOptionalFile(paths.frequencies),
+		readOptionalFile(paths.fareAttributes),
+		readOptionalFile(paths.fareRules),
+		readOptionalFile(paths.fareProducts),
+		readOptionalFile(paths.fareLegRules),
+		readOptionalFile(paths.fareTransferRules),
+		readOptionalFile(paths.riderCategories),
+		readOptionalFile(paths.stopAreas),
+		readOptionalFile(paths.routeNetworks),
+	]);
+
 	const trips: Trip[] = [];
+	const tripsIndex: Record<TripID, Trip> = {};
 	const transfers: TransfersByOrigin = {};
 	const interchange: Interchange = {};
 	const calendars: CalendarIndex = {};
@@ -71,14 +168,20 @@ export async function loadGTFS(): Promise<GTFSData> {
 
 	tripsRaw.forEach(row => {
 		if (!row.trip_id || row.trip_id.trim() === "") return;
-		trips.push({
+		tripsIndex[row.trip_id] = {
 			id: row.trip_id,
 			serviceId: row.service_id,
 			routeId: row.route_id,
 			directionId: row.direction_id,
 			stopTimes: [],
 			service: {} as Service,
-		} satisfies Trip);
+			headsign: row.trip_headsign || "",
+			blockId: row.block_id || "",
+			wheelchairAccessible: row.wheelchair_accessible,
+			inSeatTransfers: {},
+			feedId: feed.id,
+		} satisfies Trip;
+		trips.push(tripsIndex[row.trip_id]);
 	});
 
 	const stopTimesIndex: Record<string, any[]> = {};
@@ -107,16 +210,45 @@ export async function loadGTFS(): Promise<GTFSData> {
 	});
 
 	transfersRaw.forEach(row => {
+		// 4: in-seat transfer between two trips, 5: in-seat transfer not allowed (the trips are never joined)
+		if (row.transfer_type === "4" || row.transfer_type === "5") {
+			const trip = tripsIndex[row.from_trip_id];
+			if (trip && row.to_trip_id) {
+				trip.inSeatTransfers[row.to_trip_id] = row.transfer_type === "4";
+			}
+			return;
+		}
+
 		if (!row.from_stop_id || row.from_stop_id.trim() === "") return;
+		// 3: transfer not possible, the footpath is not added. A forbidden transfer within a stop, or only between
+		// some trips or routes, cannot be represented and is ignored
+		if (row.transfer_type === "3") return;
+
 		if (row.from_stop_id === row.to_stop_id) {
-			interchange[row.from_stop_id] = 0;
+			// the change time is set for the whole stop, a transfer only between some trips or routes is ignored
+			if (row.from_trip_id || row.to_trip_id || row.from_route_id || row.to_route_id) return;
+
+			// 1: timed transfer, the connecting vehicle waits. 2: minimum time to change within the stop
+			if (row.transfer_type === TIMED_TRANSFER) {
+				interchange[row.from_stop_id] = 0;
+			} else if (row.transfer_type === "2" && row.min_transfer_time !== undefined && row.min_transfer_time !== "") {
+				interchange[row.from_stop_id] = +row.min_transfer_time;
+			}
 		} else {
+			// a footpath is used by every trip, a transfer only between some trips or routes is ignored
+			if (row.from_trip_id || row.to_trip_id || row.from_route_id || row.to_route_id) return;
+
 			const transfer: Transfer = {
 				origin: row.from_stop_id,
 				destination: row.to_stop_id,
-				duration: +row.min_transfer_time || MIN_INTERCHANGE_TIME,
-				startTime: 0, // startTime & endTime are used to check when a transfer is valid (here, always)
-				endTime: Number.MAX_SAFE_INTEGER,
+				duration: row.min_transfer_time !== undefined && row.min_transfer_time !== ""
+					? +row.min_transfer_time
+					: (row.transfer_type === TIMED_TRANSFER ? 0 : MIN_INTERCHANGE_TIME),
+				distance: +row.walking_distance || 0,
+				// startTime & endTime are used to check when a transfer is valid (always without a window)
+				startTime: row.start_time ? timeParser.getTime(row.start_time) : 0,
+				endTime: row.end_time ? timeParser.getTime(row.end_time) : Number.MAX_SAFE_INTEGER,
+				days: getTransferDays(row.days),
 				transferType: row.transfer_type,
 			};
 			pushNested(transfer, transfers, row.from_stop_id);
@@ -132,24 +264,198 @@ export async function loadGTFS(): Promise<GTFSData> {
 			longitude: +row.stop_lon,
 			locationType: row.location_type,
 			parentStation: row.parent_station,
-			wheelchairBoarding: row.wheelchair_boarding
+			wheelchairBoarding: row.wheelchair_boarding,
+			zoneId: row.zone_id || ""
 		} satisfies Stop;
 	});
 
+	const fares: FareData = {
+		attributes: [],
+		rules: [],
+		products: [],
+		legRules: [],
+		transferRules: [],
+		defaultRiderCategories: [],
+		networks: {},
+		areas: {},
+	};
+
+	fareAttributesRaw.forEach(row => {
+		if (!row.fare_id || isNaN(parseFloat(row.price))) return;
+		fares.attributes.push({
+			fareId: row.fare_id,
+			price: parseFloat(row.price),
+			currency: row.currency_type,
+			transfers: row.transfers === undefined || row.transfers === "" ? null : +row.transfers,
+			transferDuration: row.transfer_duration ? +row.transfer_duration : null,
+		} satisfies FareAttribute);
+	});
+
+	fareRulesRaw.forEach(row => {
+		if (!row.fare_id) return;
+		fares.rules.push({
+			fareId: row.fare_id,
+			routeId: row.route_id || "",
+			originId: row.origin_id || "",
+			destinationId: row.destination_id || "",
+			containsId: row.contains_id || "",
+		} satisfies FareRule);
+	});
+
+	fareProductsRaw.forEach(row => {
+		if (!row.fare_product_id || isNaN(parseFloat(row.amount))) return;
+		fares.products.push({
+			id: row.fare_product_id,
+			name: row.fare_product_name || row.fare_product_id,
+			amount: parseFloat(row.amount),
+			currency: row.currency,
+			riderCategoryId: row.rider_category_id || "",
+			fareMediaId: row.fare_media_id || "",
+		} satisfies FareProduct);
+	});
+
+	fareLegRulesRaw.forEach(row => {
+		if (!row.fare_product_id) return;
+		// time dependent fares are not supported, rules restricted to a timeframe are ignored
+		if (row.from_timeframe_group_id || row.to_timeframe_group_id) return;
+		fares.legRules.push({
+			legGroupId: row.leg_group_id || "",
+			networkId: row.network_id || "",
+			fromAreaId: row.from_area_id || "",
+			toAreaId: row.to_area_id || "",
+			fareProductId: row.fare_product_id,
+			rulePriority: +row.rule_priority || 0,
+		} satisfies FareLegRule);
+	});
+
+	fareTransferRulesRaw.forEach(row => {
+		if (row.fare_transfer_type === undefined || row.fare_transfer_type === "") return;
+		fares.transferRules.push({
+			fromLegGroupId: row.from_leg_group_id || "",
+			toLegGroupId: row.to_leg_group_id || "",
+			transferCount: row.transfer_count === undefined || row.transfer_count === "" || row.transfer_count === "-1" ? null : +row.transfer_count,
+			durationLimit: row.duration_limit ? +row.duration_limit : null,
+			durationLimitType: +row.duration_limit_type || 0,
+			fareTransferType: +row.fare_transfer_type,
+			fareProductId: row.fare_product_id || "",
+		} satisfies FareTransferRule);
+	});
+
+	riderCategoriesRaw.forEach(row => {
+		if (row.rider_category_id && row.is_default_fare_category === "1") {
+			fares.defaultRiderCategories.push(row.rider_category_id);
+		}
+	});
+
+	routesRaw.forEach(row => {
+		if (row.route_id && row.network_id) {
+			fares.networks[row.route_id] = row.network_id;
+		}
+	});
+
+	routeNetworksRaw.forEach(row => {
+		if (row.route_id && row.network_id) {
+			fares.networks[row.route_id] = row.network_id;
+		}
+	});
+
+	stopAreasRaw.forEach(row => {
+		if (!row.stop_id || !row.area_id) return;
+		pushNested(row.area_id, fares.areas, row.stop_id);
+	});
+
 	for (const serviceId in calendars) {
 		const cal = calendars[serviceId];
 		services[cal.serviceId] = new Service(cal.startDate, cal.endDate, cal.days, cal.include);
 	}
 
-	for (const trip of trips) {
+	// a trip with less than two stop times cannot be used to travel, it is dropped
+	const timetableTrips = trips.filter(trip => stopTimesIndex[trip.id]?.length >= 2);
+	for (const trip of timetableTrips) {
 		trip.stopTimes = stopTimesIndex[trip.id];
 		trip.service = services[trip.serviceId];
 	}
 
-	return {trips, transfers, interchange};
+	const frequencies: Frequency[] = [];
+	frequenciesRaw.forEach(row => {
+		if (!row.trip_id || !row.start_time || !row.end_time || !(+row.headway_secs > 0)) return;
+		frequencies.push({
+			tripId: row.trip_id,
+			startTime: timeParser.getTime(row.start_time),
+			endTime: timeParser.getTime(row.end_time),
+			headway: +row.headway_secs,
+			exactTimes: row.exact_times === "1",
+		} satisfies Frequency);
+	});
+
+	return {trips: expandFrequencies(timetableTrips, frequencies), transfers, interchange, stops: stopsIndex, fares, calendars};
+}
+
+/**
+ * Merges the GTFS data of several feeds, their IDs do not collide as they are namespaced.
+ */
+function mergeGTFSData(results: GTFSData[]): GTFSData {
+	const merged: GTFSData = {
+		trips: [],
+		transfers: {},
+		interchange: {},
+		stops: {},
+		fares: { attributes: [], rules: [], products: [], legRules: [], transferRules: [], defaultRiderCategories: [], networks: {}, areas: {} },
+		calendars: {},
+	};
+
+	for (const { trips, transfers, interchange, stops, fares, calendars } of results) {
+		merged.trips.push(...trips);
+		for (const origin in transfers) {
+			merged.transfers[origin] = [...(merged.transfers[origin] || []), ...transfers[origin]];
+		}
+		Object.assign(merged.interchange, interchange);
+		Object.assign(merged.stops, stops);
+		Object.assign(merged.calendars, calendars);
+		merged.fares.attributes.push(...fares.attributes);
+		merged.fares.rules.push(...fares.rules);
+		merged.fares.products.push(...fares.products);
+		merged.fares.legRules.push(...fares.legRules);
+		merged.fares.transferRules.push(...fares.transferRules);
+		merged.fares.defaultRiderCategories.push(...fares.defaultRiderCategories);
+		Object.assign(merged.fares.networks, fares.networks);
+		for (const area in fares.areas) {
+			merged.fares.areas[area] = [...(merged.fares.areas[area] || []), ...fares.areas[area]];
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Returns the days on which a transfer is valid, every day when they are not given.
+ */
+function getTransferDays(days?: string[]): Record<DayOfWeek, boolean> {
+	const dayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+	const transferDays = {} as Record<DayOfWeek, boolean>;
+
+	dayNames.forEach((day, dow) => {
+		transferDays[dow as DayOfWeek] = !days || days.includes(day);
+	});
+
+	return transferDays;
+}
+
+/**
+ * Reads an optional GTFS file, a file missing from the GTFS has no rows.
+ */
+async function readOptionalFile(path: string): Promise<any[]> {
+	try {
+		return JSON.parse(await readFile(path, "utf-8"));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
 }
 
 /**
  * Contents of the GTFS zip file
  */
-export type GTFSData = {trips: Trip[], transfers: TransfersByOrigin, interchange: Interchange};
+export type GTFSData = {trips: Trip[], transfers: TransfersByOrigin, interchange: Interchange, stops: StopIndex, fares: FareData, calendars: CalendarIndex};
@@ -0,0 +1,242 @@
+import { readFile } from 'fs/promises';
+import { DateIndex, DayOfWeek } from './GTFS';
+import { Service } from './Service';
+import { TimeParser } from './TimeParser';
+import { getDateNumber } from '../query/DateUtil';
+
+/**
+ * Rule broken by a GTFS feed. A feed with errors is not published, the warnings are only reported.
+ */
+export interface ValidationIssue {
+	rule: string;
+	severity: 'error' | 'warning';
+	file: string;
+	message: string;
+	count: number;
+	examples: string[];
+}
+
+// Number of examples given for each issue
+const maxExamples: number = 10;
+
+/**
+ * Checks the GTFS files of a feed, as converted to JSON by the getter: referential integrity, stop times going back
+ * in time, calendar coverage of the next days, orphan stops and duplicate trips. The rows skipped by the loader
+ * (missing IDs or times) are reported as well.
+ *
+ * A calendar that does not cover all the next days is only a warning, as feeds are often published a few weeks ahead.
+ * It is an error when no trip runs today, or when the feed covers fewer days than the published one.
+ *
+ * @param directory - The directory of the JSON files.
+ * @param days - The number of days, from today, the calendar should cover.
+ * @param publishedDirectory - The directory of the published version of the feed, if any.
+ *
+ * @returns The issues found, errors first.
+ */
+export async function validateGTFS(directory: string, days: number, publishedDirectory?: string): Promise<ValidationIssue[]> {
+	const [stops, routes, trips, stopTimes, calendars, calendarDates, transfers] = await Promise.all(
+		['stops', 'routes', 'trips', 'stop_times', 'calendar', 'calendar_dates', 'transfers'].map(file => readRows(directory, file))
+	);
+
+	const issues: ValidationIssue[] = [];
+	const addIssue = (rule: string, severity: ValidationIssue['severity'], file: string, message: string, examples: string[]) => {
+		if (examples.length > 0) {
+			issues.push({ rule, severity, file, message, count: examples.length, examples: examples.slice(0, maxExamples) });
+		}
+	};
+
+	for (const [file, rows] of Object.entries({ 'stops.txt': stops, 'trips.txt': trips, 'stop_times.txt': stopTimes, 'calendar.txt': calendars })) {
+		addIssue('empty-file', 'error', file, 'The file is missing or has no rows', rows.length === 0 ? [file] : []);
+	}
+
+	const stopIds = new Set(stops.map(row => row.stop_id));
+	const routeIds = new Set(routes.map(row => row.route_id));
+	const serviceIds = new Set(calendars.map(row => row.service_id));
+
+	// trips.txt
+	const tripIds = new Set<string>();
+	const duplicateTripIds: string[] = [];
+	for (const row of trips) {
+		if (tripIds.has(row.trip_id)) {
+			duplicateTripIds.push(row.trip_id);
+		}
+		tripIds.add(row.trip_id);
+	}
+	addIssue('duplicate-trip-id', 'error', 'trips.txt', 'The trip_id is used by several trips', duplicateTripIds);
+	addIssue('unknown-route', 'error', 'trips.txt', 'The route_id is not in routes.txt',
+		routes.length === 0 ? [] : trips.filter(row => !routeIds.has(row.route_id)).map(row => `${row.trip_id}: ${row.route_id}`));
+	addIssue('unknown-service', 'error', 'trips.txt', 'The service_id is not in calendar.txt',
+		trips.filter(row => !serviceIds.has(row.service_id)).map(row => `${row.trip_id}: ${row.service_id}`));
+
+	// stop_times.txt
+	const timeParser = new TimeParser();
+	const stopTimesByTrip = new Map<string, Record<string, string>[]>();
+	const invalidStopTimes: string[] = [];
+	const unknownTrips = new Set<string>();
+	const unknownStops = new Set<string>();
+	const usedStops = new Set<string>();
+	for (const row of stopTimes) {
+		const departureTime = timeParser.getTime(row.departure_time || '');
+		const arrivalTime = timeParser.getTime(row.arrival_time || '');
+
+		if (!row.trip_id || !row.stop_id || !row.departure_time || !row.arrival_time || isNaN(departureTime) || isNaN(arrivalTime)) {
+			invalidStopTimes.push(`${row.trip_id}#${row.stop_sequence}`);
+			continue;
+		}
+		if (!tripIds.has(row.trip_id)) {
+			unknownTrips.add(row.trip_id);
+		}
+		if (!stopIds.has(row.stop_id)) {
+			unknownStops.add(row.stop_id);
+		}
+
+		usedStops.add(row.stop_id);
+		if (!stopTimesByTrip.has(row.trip_id)) {
+			stopTimesByTrip.set(row.trip_id, []);
+		}
+		stopTimesByTrip.get(row.trip_id)!.push(row);
+	}
+	addIssue('invalid-stop-time', 'warning', 'stop_times.txt', 'The stop time has no stop, trip or valid time and is ignored', invalidStopTimes);
+	addIssue('unknown-trip', 'error', 'stop_times.txt', 'The trip_id is not in trips.txt', [...unknownTrips]);
+	addIssue('unknown-stop', 'error', 'stop_times.txt', 'The stop_id is not in stops.txt', [...unknownStops]);
+	addIssue('trip-without-stop-times', 'warning', 'trips.txt', 'The trip has less than two stop times and is never used',
+		[...tripIds].filter(tripId => (stopTimesByTrip.get(tripId) || []).length < 2));
+
+	const nonMonotonicTrips: string[] = [];
+	const tripsBySchedule = new Map<string, string>();
+	const duplicateTrips: string[] = [];
+	const tripsById = new Map(trips.map(row => [row.trip_id, row]));
+	for (const [tripId, rows] of stopTimesByTrip) {
+		rows.sort((a, b) => +a.stop_sequence - +b.stop_sequence);
+
+		let time = 0;
+		for (const row of rows) {
+			const arrivalTime = timeParser.getTime(row.arrival_time);
+			const departureTime = timeParser.getTime(row.departure_time);
+			if (arrivalTime < time || departureTime < arrivalTime) {
+				nonMonotonicTrips.push(`${tripId}#${row.stop_sequence}`);
+				break;
+			}
+			time = departureTime;
+		}
+
+		const trip = tripsById.get(tripId);
+		if (trip) {
+			const schedule = [trip.route_id, trip.service_id, trip.direction_id, ...rows.map(row => `${row.stop_id}@${row.departure_time}`)].join('|');
+			if (tripsBySchedule.has(schedule)) {
+				duplicateTrips.push(`${tripId} = ${tripsBySchedule.get(schedule)}`);
+			} else {
+				tripsBySchedule.set(schedule, tripId);
+			}
+		}
+	}
+	addIssue('non-monotonic-stop-times', 'error', 'stop_times.txt', 'The stop times of the trip go back in time', nonMonotonicTrips);
+	addIssue('duplicate-trip', 'warning', 'trips.txt', 'The trip has the same route, service and stop times as another trip', duplicateTrips);
+
+	// stops.txt
+	const parentStations = new Set(stops.map(row => row.parent_station).filter(Boolean));
+	addIssue('unknown-parent-station', 'warning', 'stops.txt', 'The parent_station is not in stops.txt',
+		stops.filter(row => row.parent_station && !stopIds.has(row.parent_station)).map(row => `${row.stop_id}: ${row.parent_station}`));
+	addIssue('orphan-stop', 'warning', 'stops.txt', 'The stop is not served by any trip',
+		stops.filter(row => !usedStops.has(row.stop_id) && !parentStations.has(row.stop_id) && (!row.location_type || row.location_type === '0')).map(row => row.stop_id));
+
+	// transfers.txt
+	addIssue('unknown-transfer-stop', 'warning', 'transfers.txt', 'The from_stop_id or to_stop_id is not in stops.txt',
+		transfers.filter(row => (row.from_stop_id && !stopIds.has(row.from_stop_id)) || (row.to_stop_id && !stopIds.has(row.to_stop_id)))
+			.map(row => `${row.from_stop_id} -> ${row.to_stop_id}`));
+
+	// calendar.txt and calendar_dates.txt
+	const [missingDays, expiredDays] = getDaysWithoutService(calendars, calendarDates, trips, days);
+	const publishedExpiredDays = publishedDirectory ? await getPublishedExpiredDays(publishedDirectory, days) : null;
+	const today = `${getDateNumber(new Date())}`;
+	if (missingDays[0] === today || expiredDays[0] === today) {
+		addIssue('calendar-coverage', 'error', 'calendar.txt', 'No trip runs today', [today]);
+	} else if (publishedExpiredDays && expiredDays.length > publishedExpiredDays.length) {
+		addIssue('calendar-coverage', 'error', 'calendar.txt', 'No trip runs on the day, while the published feed has trips',
+			expiredDays.slice(0, expiredDays.length - publishedExpiredDays.length));
+	} else {
+		addIssue('calendar-coverage', 'warning', 'calendar.txt', `No trip runs after ${expiredDays[0]} within the next ${days} days`, expiredDays);
+	}
+	addIssue('calendar-gap', 'warning', 'calendar.txt', 'No trip runs on the day', missingDays);
+
+	return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+/**
+ * Returns true if one of the issues prevents the feed from being published.
+ */
+export function hasErrors(issues: ValidationIssue[]): boolean {
+	return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * Reads the rows of a GTFS file converted to JSON, a missing file has no rows.
+ */
+async function readRows(directory: string, file: string): Promise<Record<string, string>[]> {
+	try {
+		return JSON.parse(await readFile(`${directory}/${file}.json`, 'utf-8'));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
+}
+
+/**
+ * Returns the days of the next days after the last trip of the published feed, or null when no feed is published.
+ */
+async function getPublishedExpiredDays(directory: string, days: number): Promise<string[] | null> {
+	const [trips, calendars, calendarDates] = await Promise.all(
+		['trips', 'calendar', 'calendar_dates'].map(file => readRows(directory, file))
+	);
+	if (calendars.length === 0) {
+		return null;
+	}
+
+	return getDaysWithoutService(calendars, calendarDates, trips, days)[1];
+}
+
+/**
+ * Returns the days of the next days without any trip running: the days before the last day with a trip, and the days
+ * after it (the feed has expired). The services are built as the loader does.
+ */
+function getDaysWithoutService(
+	calendars: Record<string, string>[],
+	calendarDates: Record<string, string>[],
+	trips: Record<string, string>[],
+	days: number
+): [string[], string[]] {
+	const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+	const datesByService: Record<string, DateIndex> = {};
+	for (const row of calendarDates) {
+		datesByService[row.service_id] = datesByService[row.service_id] || {};
+		datesByService[row.service_id][+row.date] = row.exception_type === '1';
+	}
+
+	const usedServices = new Set(trips.map(row => row.service_id));
+	const services = calendars
+		.filter(row => usedServices.has(row.service_id))
+		.map(row => new Service(
+			+row.start_date,
+			+row.end_date,
+			Object.fromEntries(dayNames.map((day, dow) => [dow, row[day] === '1'])) as Record<DayOfWeek, boolean>,
+			datesByService[row.service_id] || {}
+		));
+
+	const dates: string[] = [];
+	const running: boolean[] = [];
+	for (let i = 0; i < days; i++) {
+		const date = new Date();
+		date.setDate(date.getDate() + i);
+
+		const dateNumber = getDateNumber(date);
+		dates.push(`${dateNumber}`);
+		running.push(services.some(service => service.runsOn(dateNumber, date.getDay() as DayOfWeek)));
+	}
+
+	const lastDayWithService = running.lastIndexOf(true);
+	const missingDays = dates.slice(0, lastDayWithService).filter((date, i) => !running[i]);
+
+	return [missingDays, dates.slice(lastDayWithService + 1)];
+}
@@ -7,12 +7,26 @@ export class Service {
     private readonly endDate: DateNumber,
     private readonly days: Record<DayOfWeek, boolean>,
     private readonly dates: DateIndex,
+    private readonly windows: ServiceWindow[] = [],
+    private readonly others: Service[] = [],
   ) {}
 
   /**
    * Returns true if the service runs on the given date and day of week
    */
   public runsOn(date: number, dow: DayOfWeek): boolean {
+    for (const window of this.windows) {
+      if ((date >= window.from && date <= window.to) !== window.inside) {
+        return false;
+      }
+    }
+
+    for (const other of this.others) {
+      if (!other.runsOn(date, dow)) {
+        return false;
+      }
+    }
+
     return this.dates[date] || (
       !this.dates.hasOwnProperty(date) &&
       this.startDate <= date &&
@@ -20,4 +34,33 @@ export class Service {
       this.days[dow]
     );
   }
+
+  /**
+   * Returns a copy of the service that only runs inside (or outside) of the given dates. Used to give a trip a
+   * temporary replacement without changing the calendar of the other dates.
+   */
+  public restrict(from: DateNumber, to: DateNumber, inside: boolean): Service {
+    return new Service(this.startDate, this.endDate, this.days, this.dates, [...this.windows, { from, to, inside }], this.others);
+  }
+
+  /**
+   * Returns a copy of the service that only runs on the dates the other service runs too. Used for a trip made of two
+   * trips whose services were restricted differently.
+   */
+  public intersect(other: Service): Service {
+    if (other === this) {
+      return this;
+    }
+
+    return new Service(this.startDate, this.endDate, this.days, this.dates, this.windows, [...this.others, other]);
+  }
+}
+
+/**
+ * Range of dates the service is restricted to (inside) or excluded from (outside)
+ */
+interface ServiceWindow {
+  from: DateNumber;
+  to: DateNumber;
+  inside: boolean;
 }
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { decodeSnapshot, readSnapshot, writeSnapshot } from './Snapshot';
+import { GTFSData } from './GTFSLoader';
+import { Calendar, StopTime, Trip } from './GTFS';
+import { Service } from './Service';
+
+const calendar: Calendar = {
+	serviceId: 'week',
+	startDate: 20250101,
+	endDate: 20251231,
+	days: { 0: false, 1: true, 2: true, 3: true, 4: true, 5: true, 6: false },
+	exclude: {},
+	include: { 20250105: true },
+};
+const service = new Service(calendar.startDate, calendar.endDate, calendar.days, calendar.include);
+
+function createTrip(id: string, stops: string[], departureTime: number, fields: Partial<Trip> = {}): Trip {
+	return {
+		id,
+		routeId: 'R1',
+		directionId: '0',
+		serviceId: 'week',
+		service,
+		headsign: 'Odysseum',
+		blockId: '',
+		wheelchairAccessible: '1',
+		inSeatTransfers: {},
+		feedId: 'tam',
+		stopTimes: stops.map((stopId, i): StopTime => ({
+			stopId,
+			arrivalTime: departureTime + i * 120,
+			departureTime: departureTime + i * 120 + 30,
+			tripId: id,
+			stopSequence: i + 1,
+			pickUp: i < stops.length - 1,
+			dropOff: i > 0,
+			headsign: i === 0 ? 'Centre' : '',
+		})),
+		...fields,
+	};
+}
+
+const data: GTFSData = {
+	trips: [
+		createTrip('T2', ['A', 'B', 'C'], 8 * 3600 + 600, { inSeatTransfers: { T3: true } }),
+		createTrip('T1', ['A', 'B', 'C'], 8 * 3600),
+		createTrip('T3', ['C', 'D'], 9 * 3600, { routeId: 'R2', blockId: 'B1', startTime: 9 * 3600, headway: 600 }),
+		createTrip('T4', ['D'], 10 * 3600),
+	],
+	transfers: {
+		B: [{ origin: 'B', destination: 'D', duration: 240, distance: 250, startTime: 0, endTime: Number.MAX_SAFE_INTEGER, days: calendar.days, transferType: '2' }],
+	},
+	interchange: { A: 60, B: 120 },
+	stops: {
+		A: { id: 'A', name: 'Comédie', code: 'COM', latitude: 43.608, longitude: 3.879, locationType: '0', parentStation: '', wheelchairBoarding: '1', zoneId: '1' },
+	},
+	fares: { attributes: [], rules: [], products: [], legRules: [], transferRules: [], defaultRiderCategories: [], networks: { R1: 'tam' }, areas: {} },
+	calendars: { week: calendar },
+};
+
+test('decodes the timetable it was written with', async () => {
+	const directory = await mkdtemp(join(tmpdir(), 'snapshot-'));
+	try {
+		const path = join(directory, 'timetable.bin');
+		await writeSnapshot(path, data, []);
+		const snapshot = await readSnapshot(path);
+		assert.ok(snapshot);
+
+		const decoded = decodeSnapshot(snapshot);
+		const byId = new Map(decoded.trips.map(trip => [trip.id, trip]));
+
+		// the trip with a single stop time cannot be used, it is dropped
+		assert.deepEqual([...byId.keys()].sort(), ['T1', 'T2', 'T3']);
+		for (const trip of data.trips.filter(trip => trip.stopTimes.length > 1)) {
+			const { service: decodedService, ...decodedFields } = byId.get(trip.id)!;
+			const { service: _, ...fields } = trip;
+
+			assert.deepEqual(decodedFields, { startTime: undefined, headway: undefined, ...fields });
+			assert.equal(decodedService.runsOn(20250105, 0), true);
+			assert.equal(decodedService.runsOn(20250106, 1), true);
+			assert.equal(decodedService.runsOn(20250111, 6), false);
+		}
+
+		assert.deepEqual(decoded.transfers, data.transfers);
+		assert.deepEqual(decoded.interchange, data.interchange);
+		assert.deepEqual(decoded.stops, data.stops);
+		assert.deepEqual(decoded.fares, data.fares);
+		assert.deepEqual(decoded.calendars, data.calendars);
+	} finally {
+		await rm(directory, { recursive: true, force: true });
+	}
+});
+
+test('ignores a snapshot whose source file changed after it was written', async () => {
+	const directory = await mkdtemp(join(tmpdir(), 'snapshot-'));
+	try {
+		const path = join(directory, 'timetable.bin');
+		const source = join(directory, 'stop_times.json');
+		await writeSnapshot(path, data, [source]);
+		assert.ok(await readSnapshot(path));
+
+		await new Promise(resolve => setTimeout(resolve, 20));
+		await writeFile(source, '[]');
+		assert.equal(await readSnapshot(path), undefined);
+	} finally {
+		await rm(directory, { recursive: true, force: true });
+	}
+});
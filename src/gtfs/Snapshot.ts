@@ -0,0 +1,314 @@
+import { readFile, rename, stat, writeFile } from 'fs/promises';
+import { StopTime, Trip } from './GTFS';
+import { GTFSData } from './GTFSLoader';
+import { Service } from './Service';
+
+// Snapshot written by the getter and read by the API at startup
+export const timetableSnapshotPath: string = 'exports/timetable.bin';
+
+// Changed whenever the layout of the snapshot changes, an older snapshot is then ignored
+const snapshotVersion: number = 4;
+const snapshotMagic: string = 'MTTT';
+const headerLength: number = 12;
+
+type SectionType = 'int32' | 'uint32' | 'uint8';
+type SectionArray = Int32Array | Uint32Array | Uint8Array;
+
+/**
+ * JSON part of the snapshot: the small indexes are kept as they are, the trips and stop times are in the binary
+ * sections and reference the string table by index (0 is undefined).
+ */
+interface SnapshotMeta {
+	createdAt: string;
+	sources: string[];
+	strings: (string | null)[];
+	sections: Record<string, [SectionType, number, number]>;
+	inSeatTransfers: Record<number, Record<string, boolean>>;
+	calendars: GTFSData['calendars'];
+	transfers: GTFSData['transfers'];
+	interchange: GTFSData['interchange'];
+	stops: GTFSData['stops'];
+	fares: GTFSData['fares'];
+}
+
+// Columns of the trips, stored as indexes of the string table
+const tripColumns = ['id', 'routeId', 'directionId', 'serviceId', 'headsign', 'blockId', 'wheelchairAccessible', 'feedId'] as const;
+
+/**
+ * Writes the timetable as a compact snapshot, so that the API does not parse the GTFS files at startup.
+ *
+ * The trips are grouped by route pattern (the stops with their pick up and drop off), each pattern is stored once
+ * and its trips are sorted by departure time. The times, stop sequences and headsigns of the stop times are typed
+ * arrays, the strings are stored once in a string table. The file is written next to its path and then renamed, so
+ * that the API never reads a partial snapshot.
+ *
+ * @param path - The path of the snapshot.
+ * @param data - The GTFS data, as returned by loadGTFS.
+ * @param sources - The files the data was read from, the snapshot is ignored if one of them is more recent.
+ */
+export async function writeSnapshot(path: string, data: GTFSData, sources: string[]): Promise<void> {
+	const strings: (string | null)[] = [null];
+	const stringIndexes = new Map<string, number>();
+	const intern = (value: string | undefined): number => {
+		if (value === undefined || value === null) {
+			return 0;
+		}
+		let index = stringIndexes.get(value);
+		if (index === undefined) {
+			index = strings.length;
+			strings.push(value);
+			stringIndexes.set(value, index);
+		}
+		return index;
+	};
+
+	const patternIndexes = new Map<string, number>();
+	const patternOffsets: number[] = [0];
+	const patternStops: number[] = [];
+	const patternFlags: number[] = [];
+	const getPattern = (trip: Trip): number => {
+		if (!trip.stopTimes || trip.stopTimes.length === 0) {
+			return -1;
+		}
+
+		const key = trip.stopTimes.map(stopTime => `${stopTime.stopId}:${+stopTime.pickUp}${+stopTime.dropOff}`).join();
+		let index = patternIndexes.get(key);
+		if (index === undefined) {
+			index = patternOffsets.length - 1;
+			for (const stopTime of trip.stopTimes) {
+				patternStops.push(intern(stopTime.stopId));
+				patternFlags.push((stopTime.pickUp ? 1 : 0) | (stopTime.dropOff ? 2 : 0));
+			}
+			patternOffsets.push(patternStops.length);
+			patternIndexes.set(key, index);
+		}
+		return index;
+	};
+
+	// trips without stop times last, the others by pattern and departure time
+	const trips = data.trips
+		.map((trip): [Trip, number] => [trip, getPattern(trip)])
+		.sort(([a, patternA], [b, patternB]) =>
+			patternA === patternB
+				? (a.stopTimes?.[0]?.departureTime ?? 0) - (b.stopTimes?.[0]?.departureTime ?? 0)
+				: (patternA === -1 ? Infinity : patternA) - (patternB === -1 ? Infinity : patternB)
+		);
+
+	const stopTimeCount = trips.reduce((count, [trip]) => count + (trip.stopTimes?.length || 0), 0);
+	const sections: Record<string, SectionArray> = {
+		patternOffsets: Uint32Array.from(patternOffsets),
+		patternStops: Uint32Array.from(patternStops),
+		patternFlags: Uint8Array.from(patternFlags),
+		tripPatterns: new Int32Array(trips.length),
+		tripOffsets: new Uint32Array(trips.length),
+		tripStartTimes: new Int32Array(trips.length),
+		tripHeadways: new Int32Array(trips.length),
+		arrivalTimes: new Int32Array(stopTimeCount),
+		departureTimes: new Int32Array(stopTimeCount),
+		stopSequences: new Int32Array(stopTimeCount),
+		headsigns: new Uint32Array(stopTimeCount),
+	};
+	for (const column of tripColumns) {
+		sections[`trip.${column}`] = new Uint32Array(trips.length);
+	}
+
+	const inSeatTransfers: Record<number, Record<string, boolean>> = {};
+	let offset = 0;
+	trips.forEach(([trip, pattern], i) => {
+		for (const column of tripColumns) {
+			sections[`trip.${column}`][i] = intern(trip[column]);
+		}
+		if (Object.keys(trip.inSeatTransfers).length > 0) {
+			inSeatTransfers[i] = trip.inSeatTransfers;
+		}
+
+		sections.tripPatterns[i] = pattern;
+		sections.tripOffsets[i] = offset;
+		sections.tripStartTimes[i] = trip.startTime ?? -1;
+		sections.tripHeadways[i] = trip.headway ?? 0;
+		for (const stopTime of trip.stopTimes || []) {
+			sections.arrivalTimes[offset] = stopTime.arrivalTime;
+			sections.departureTimes[offset] = stopTime.departureTime;
+			sections.stopSequences[offset] = stopTime.stopSequence;
+			sections.headsigns[offset] = intern(stopTime.headsign);
+			offset++;
+		}
+	});
+
+	// every section starts on a 4 bytes boundary, so that it can be read without being copied
+	const layout: SnapshotMeta['sections'] = {};
+	const buffers: Buffer[] = [];
+	let sectionOffset = 0;
+	for (const [name, array] of Object.entries(sections)) {
+		const type: SectionType = array instanceof Int32Array ? 'int32' : array instanceof Uint32Array ? 'uint32' : 'uint8';
+		layout[name] = [type, sectionOffset, array.length];
+		buffers.push(Buffer.from(array.buffer, array.byteOffset, array.byteLength), Buffer.alloc(getPadding(array.byteLength)));
+		sectionOffset += array.byteLength + getPadding(array.byteLength);
+	}
+
+	const meta: SnapshotMeta = {
+		createdAt: new Date().toISOString(),
+		sources,
+		strings,
+		sections: layout,
+		inSeatTransfers,
+		calendars: data.calendars,
+		transfers: data.transfers,
+		interchange: data.interchange,
+		stops: data.stops,
+		fares: data.fares,
+	};
+	const metaBuffer = Buffer.from(JSON.stringify(meta), 'utf-8');
+
+	const header = Buffer.alloc(headerLength);
+	header.write(snapshotMagic, 0, 'latin1');
+	header.writeUInt32LE(snapshotVersion, 4);
+	header.writeUInt32LE(metaBuffer.length, 8);
+
+	const temporaryPath = `${path}.tmp`;
+	await writeFile(temporaryPath, Buffer.concat([header, metaBuffer, Buffer.alloc(getPadding(headerLength + metaBuffer.length)), ...buffers]));
+	await rename(temporaryPath, path);
+}
+
+/**
+ * Reads the timetable snapshot into a SharedArrayBuffer, so that it can be given to worker threads without being
+ * copied.
+ *
+ * @param path - The path of the snapshot.
+ *
+ * @returns The snapshot, or undefined if there is no snapshot, it was written by another version or one of its
+ * source files was changed since.
+ */
+export async function readSnapshot(path: string): Promise<Uint8Array | undefined> {
+	let buffer: Buffer;
+	let modified: number;
+	try {
+		[buffer, modified] = await Promise.all([readFile(path), stat(path).then(stats => stats.mtimeMs)]);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return undefined;
+		}
+		throw error;
+	}
+
+	if (buffer.toString('latin1', 0, 4) !== snapshotMagic || buffer.readUInt32LE(4) !== snapshotVersion) {
+		return undefined;
+	}
+
+	const metaLength = buffer.readUInt32LE(8);
+	const meta: SnapshotMeta = JSON.parse(buffer.toString('utf-8', headerLength, headerLength + metaLength));
+	if (await isOutdated(meta.sources, modified)) {
+		return undefined;
+	}
+
+	const snapshot = new Uint8Array(new SharedArrayBuffer(buffer.length));
+	snapshot.set(buffer);
+	return snapshot;
+}
+
+/**
+ * Decodes a snapshot read by readSnapshot. The binary sections are used in place, only the trips and their stop
+ * times are built. They are not shared: every caller, e.g. each search worker, holds its own copy of them, so the
+ * snapshot saves the parsing of the GTFS files at startup but not the memory of the decoded timetable.
+ *
+ * @param snapshot - The snapshot.
+ *
+ * @returns The GTFS data.
+ */
+export function decodeSnapshot(snapshot: Uint8Array): GTFSData {
+	const buffer = Buffer.from(snapshot.buffer, snapshot.byteOffset, snapshot.byteLength);
+	const metaLength = buffer.readUInt32LE(8);
+	const meta: SnapshotMeta = JSON.parse(buffer.toString('utf-8', headerLength, headerLength + metaLength));
+
+	// the typed arrays need an aligned offset, the snapshot has its own SharedArrayBuffer so its sections are aligned
+	const dataOffset = snapshot.byteOffset + headerLength + metaLength + getPadding(headerLength + metaLength);
+	const section = (name: string): SectionArray => {
+		const [type, offset, length] = meta.sections[name];
+		switch (type) {
+			case 'int32': return new Int32Array(snapshot.buffer, dataOffset + offset, length);
+			case 'uint32': return new Uint32Array(snapshot.buffer, dataOffset + offset, length);
+			default: return new Uint8Array(snapshot.buffer, dataOffset + offset, length);
+		}
+	};
+
+	const strings = meta.strings.map(value => value ?? undefined) as string[];
+	const patternOffsets = section('patternOffsets');
+	const patternStops = section('patternStops');
+	const patternFlags = section('patternFlags');
+	const tripPatterns = section('tripPatterns');
+	const tripOffsets = section('tripOffsets');
+	const tripStartTimes = section('tripStartTimes');
+	const tripHeadways = section('tripHeadways');
+	const arrivalTimes = section('arrivalTimes');
+	const departureTimes = section('departureTimes');
+	const stopSequences = section('stopSequences');
+	const headsigns = section('headsigns');
+	const columns = Object.fromEntries(tripColumns.map(column => [column, section(`trip.${column}`)])) as Record<typeof tripColumns[number], SectionArray>;
+
+	const services: Record<string, Service> = {};
+	for (const serviceId in meta.calendars) {
+		const calendar = meta.calendars[serviceId];
+		services[serviceId] = new Service(calendar.startDate, calendar.endDate, calendar.days, calendar.include);
+	}
+
+	const trips: Trip[] = [];
+	for (let i = 0; i < tripPatterns.length; i++) {
+		// a trip with less than two stop times cannot be used to travel, it is dropped
+		const pattern = tripPatterns[i];
+		if (pattern === -1 || patternOffsets[pattern + 1] - patternOffsets[pattern] < 2) continue;
+
+		const id = strings[columns.id[i]];
+		const start = patternOffsets[pattern];
+		const stopTimes: StopTime[] = [];
+		for (let j = 0; j < patternOffsets[pattern + 1] - start; j++) {
+			const offset = tripOffsets[i] + j;
+			stopTimes.push({
+				stopId: strings[patternStops[start + j]],
+				arrivalTime: arrivalTimes[offset],
+				departureTime: departureTimes[offset],
+				tripId: id,
+				stopSequence: stopSequences[offset],
+				pickUp: (patternFlags[start + j] & 1) !== 0,
+				dropOff: (patternFlags[start + j] & 2) !== 0,
+				headsign: strings[headsigns[offset]],
+			});
+		}
+
+		trips.push({
+			id,
+			routeId: strings[columns.routeId[i]],
+			directionId: strings[columns.directionId[i]],
+			serviceId: strings[columns.serviceId[i]],
+			headsign: strings[columns.headsign[i]],
+			blockId: strings[columns.blockId[i]],
+			wheelchairAccessible: strings[columns.wheelchairAccessible[i]],
+			feedId: strings[columns.feedId[i]],
+			inSeatTransfers: meta.inSeatTransfers[i] || {},
+			service: services[strings[columns.serviceId[i]]],
+			startTime: tripStartTimes[i] >= 0 ? tripStartTimes[i] : undefined,
+			headway: tripHeadways[i] || undefined,
+			stopTimes,
+		} satisfies Trip);
+	}
+
+	return {
+		trips,
+		transfers: meta.transfers,
+		interchange: meta.interchange,
+		stops: meta.stops,
+		fares: meta.fares,
+		calendars: meta.calendars,
+	};
+}
+
+/**
+ * Returns true if one of the source files was changed after the snapshot was written, a missing file is ignored.
+ */
+async function isOutdated(sources: string[], modified: number): Promise<boolean> {
+	const times = await Promise.all(sources.map(source => stat(source).then(stats => stats.mtimeMs, () => 0)));
+	return times.some(time => time > modified);
+}
+
+function getPadding(length: number): number {
+	return (4 - (length % 4)) % 4;
+}
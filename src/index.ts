@@ -1,6 +1,7 @@
 // External imports
 import express, { Request, Response } from 'express';
-import { promises as fs } from 'fs';
+import { promises as fs, watchFile } from 'fs';
+import { join } from 'path';
 import Flatbush from "flatbush";
 import haversine from 'haversine-distance';
 import PathFinder from "geojson-path-finder";
@@ -8,38 +9,113 @@ import { FeatureCollection, LineString } from 'geojson';
 
 // Results
 import { Journey } from "./results/Journey";
-import { JourneyFactory } from "./results/JourneyFactory";
 import { findMatchingTrip } from './results/DelayUtils';
-import { MultipleCriteriaArriveByFilter } from './results/filter/MultipleCriteriaArriveByFilter';
-import { MultipleCriteriaDepartAfterFilter } from './results/filter/MultipleCriteriaDepartAfterFilter';
 
 // GTFS
-import { loadGTFS } from "./gtfs/GTFSLoader";
+import { loadTimetable } from "./gtfs/GTFSLoader";
+import { timetableSnapshotPath } from "./gtfs/Snapshot";
 import { TimeParser } from "./gtfs/TimeParser";
-import { TimetableLeg, Trip } from "./gtfs/GTFS";
+import { DateNumber, StopIndex, Time, TimetableLeg, Trip } from "./gtfs/GTFS";
+import { splitBlockContinuation } from "./gtfs/Blocks";
+import { toApiId } from "./gtfs/Feeds";
 
 // Queries
-import { GroupStationDepartAfterQuery } from "./query/GroupStationDepartAfterQuery";
-import { GroupStationArriveByQuery } from "./query/GroupStationArriveByQuery";
+import { createSearchQueries, IsochroneRequest, planIsochrone, planJourneys, PlanRequest, SearchQueries } from "./search/SearchQueries";
+import { SearchPool } from "./search/SearchPool";
 
 // Raptor
-import { RaptorAlgorithmFactory } from "./raptor/RaptorAlgorithmFactory";
-import { Interchange, TransfersByOrigin } from "./raptor/RaptorAlgorithm";
+import { Interchange, StopDistances, StopTimes, TransfersByOrigin } from "./raptor/RaptorAlgorithm";
+import { Arrivals } from "./raptor/ScanResults";
+
+// Realtime
+import { loadTripUpdates, TripUpdate, TripUpdateFeed } from "./realtime/TripUpdates";
+import { applyTripUpdates, getChangedDates } from "./realtime/RealtimeTrips";
+
+// Accessibility
+import { Accessibility, getStopAccessibility, parseAccessibility } from "./accessibility/Accessibility";
+
+// Transfer patterns
+import { createTransferPatternStorage, TransferPatternStorage } from "./transfer-pattern/TransferPatternStorage";
+
+// Departures
+import { DepartureBoard } from "./departures/DepartureBoard";
+
+// Fares
+import { FareCalculator } from "./fares/FareCalculator";
+
+// Disruptions
+import { applyDisruptions } from "./disruptions/DisruptedTrips";
+import { Disruption, getActiveDisruptions, getClosedLignes, getClosedStops, getJourneyDisruptions, loadDisruptions } from "./disruptions/Disruptions";
+
+// Bike-share
+import { BikeStation, findClosestBikeStation, loadBikeStations } from "./bikeshare/BikeShare";
+
+// Park-and-ride
+import { findParkAndRides, isParkAndRideOpen, loadParkAndRides, ParkAndRide } from "./parkandride/ParkAndRide";
 
 // Geo
 import { calcDistancePath, findClosestPointIndex, getProjectedPath } from "./geo/PathUtils";
 import { buildFlatbushIndex } from "./geo/SpatialIndex";
+import { buildWalkGraph, WalkGraph } from "./geo/Isochrone";
+
+// Routes
+import { addAdminRoutes } from "./routes/AdminRoutes";
+import { addDepartureRoutes } from "./routes/DepartureRoutes";
+import { addIsochroneRoutes } from "./routes/IsochroneRoutes";
 
 // Interfaces
-import { Station, Ligne, Coords, FormattedJourney, TripDetail, StationDetail, VehicleType, getVehicleType, WalkDetail } from './interfaces';
+import { Station, Ligne, Coords, FormattedJourney, TripDetail, StationDetail, VehicleType, allVehicleTypes, getVehicleType, getVehicleTypesFromFilters, getLogicalStation, WalkDetail, BikeDetail, CarDetail } from './interfaces';
 
 // Utils
-import { maxDays, MIN_INTERCHANGE_TIME, timeToDate, toCoords } from './utils/FormatUtils';
+import { BIKE_SPEED, bikeStationRadius, CAR_SPEED, maxDays, maxParkAndRideDistance, maxRangeDuration, MIN_INTERCHANGE_TIME, parkingDuration, timeToDate, toCoords, WALKING_SPEED } from './utils/FormatUtils';
 
 
 // Emissions factors in kg CO2 per kilometer
-const emissionsTram: number = 6.62;
-const emissionsBus: number = 12;
+const emissionsFactors: Record<VehicleType, number> = {
+	[VehicleType.Tram]: 6.62,
+	[VehicleType.Bus]: 12,
+	[VehicleType.Metro]: 6.62,
+	[VehicleType.Rail]: 8.5,
+	[VehicleType.Coach]: 10.5,
+	[VehicleType.OnDemand]: 12,
+	[VehicleType.Shuttle]: 12,
+	[VehicleType.Ferry]: 30,
+	[VehicleType.AerialLift]: 6.62,
+	[VehicleType.Funicular]: 6.62,
+	[VehicleType.Unknown]: 12,
+};
+
+// GTFS-Realtime TripUpdates source (file path or URL), realtime is disabled when not set
+const realtimeSource: string | undefined = process.env.GTFS_RT_TRIP_UPDATES;
+const realtimeRefreshInterval: number = 30 * 1000;
+
+// Transfer patterns storage (mysql URL or file path), journeys are only planned with RAPTOR when not set
+const transferPatternsDatabase: string | undefined = process.env.TRANSFER_PATTERNS_DATABASE;
+
+// Disruption definition file, watched to reload the disruptions without restarting the API
+const disruptionsPath: string = 'datas/disruptions.json';
+const disruptionsWatchInterval: number = 5 * 1000;
+
+// GBFS feed of the bike-share system, its station status is watched to follow the availability of the bikes
+const bikeSharePath: string = 'datas/gbfs';
+const bikeShareWatchInterval: number = 30 * 1000;
+
+// Park-and-ride lots and the stations they give access to
+const parkAndRidePath: string = 'datas/park_and_ride.json';
+
+// Timetable datas are reloaded when the getter has run (the timetable snapshot is the last file it writes), or when the
+// admin endpoint is called with the ADMIN_TOKEN. The reload waits for the files to be written.
+const adminToken: string | undefined = process.env.ADMIN_TOKEN;
+const datasWatchedPath: string = timetableSnapshotPath;
+const datasWatchInterval: number = 60 * 1000;
+const datasReloadDelay: number = 30 * 1000;
+
+// Journey searches are planned by a pool of worker threads sharing the timetable snapshot (SEARCH_WORKERS=0 plans them
+// on the main thread). A search is cancelled after the timeout, and new ones are refused while the queue is full.
+const searchWorkers: number = Number(process.env.SEARCH_WORKERS ?? 2);
+const searchTimeout: number = 10 * 1000;
+const maxSearchQueue: number = 100;
+const searchRetryAfter: number = 5;
 
 // Datas
 let stations: Map<string, Station>;
@@ -47,11 +123,48 @@ let lignes: Map<string, Ligne>;
 let tripsData: Trip[] | null = null;
 let transfersData: TransfersByOrigin | null = null;
 let interchangeData: Interchange | null = null;
+let stopsData: StopIndex = {};
+let fareCalculator: FareCalculator;
+let disruptions: Disruption[] = [];
+let bikeStations: BikeStation[] = [];
+let parkAndRides: ParkAndRide[] = [];
+
+// Timetable datas, swapped all at once when they are reloaded
+interface Datas {
+	stations: Map<string, Station>;
+	lignes: Map<string, Ligne>;
+	routes: FeatureCollection<LineString>;
+	trips: Trip[];
+	transfers: TransfersByOrigin;
+	interchange: Interchange;
+	stops: StopIndex;
+	fareCalculator: FareCalculator;
+	snapshot?: Uint8Array;
+}
+
+// Engines built from the timetable datas
+interface Engines {
+	searchQueries: SearchQueries | null;
+	departureBoard: DepartureBoard;
+}
+
+// RAPTOR
+let searchQueries: SearchQueries | null = null;
+let departureBoard: DepartureBoard;
+let tripUpdates: TripUpdate[] = [];
+let tripUpdatesTimestamp: number | undefined;
+let transferPatternStorage: TransferPatternStorage | null = null;
+let datasReload: Promise<void> | null = null;
+
+// Search workers
+let timetableSnapshot: Uint8Array | undefined;
+let searchPool: SearchPool | null = null;
 
 // PathFinder
 let routes: FeatureCollection<LineString>;
 let lineIndex: Flatbush;
 let pathFinder: PathFinder<unknown, unknown>;
+let walkGraph: WalkGraph;
 
 /**
  * Retrieves the keys of the physical stops for a given station.
@@ -85,22 +198,6 @@ function getPhysicalStopKeys(map: Map<string, Station>, stationKey: string, allo
 }
 
 
-/**
- * Retrieves the logical station corresponding to a given physical station.
- *
- * @param physicalStation - The identifier of the physical station to look for.
- * @param stations - A map of station identifiers to Station objects.
- * @returns An object containing the key and the Station object if found, otherwise undefined.
- */
-function getLogicalStation(physicalStation: number, stations: Map<string, Station>): { key: string; station: Station } | undefined {
-	for (const [stationId, station] of stations.entries()) {
-		if (station.physical_stops.hasOwnProperty(physicalStation)) {
-			return { key: stationId, station: station };
-		}
-	}
-	return undefined;
-}
-
 /**
  * Filters a journey based on allowed vehicle types.
  * 
@@ -134,7 +231,7 @@ function filterJourney(allowedVehicleTypes: VehicleType[], journey: FormattedJou
  *
  * The function iterates through each trip in the trip_details array and calculates the total distance traveled
  * based on the path of the line and the stations involved in the trip. It then calculates the emissions for
- * the trip based on the type of line (tram or bus) and the emission factor associated with it.
+ * the trip based on the vehicle type of the line and the emission factor associated with it.
  */
 function calculateEmissions(trip_details: any[], lignes: Map<string, Ligne>, stations: Map<string, Station>): number {
 	let emissions = 0;
@@ -143,8 +240,8 @@ function calculateEmissions(trip_details: any[], lignes: Map<string, Ligne>, sta
 		const ligne = lignes.get(trip.ligne_id.toString());
 
 		if (ligne) {
-			const path = ligne.directions[trip.direction_id[0]].paths.find(path => path.terminus_id === trip.direction_id[1])?.coordinates;
-			if (!path) continue;
+			// the lignes of the other feeds have no path, the distance is then taken as the crow flies
+			const path = ligne.directions[trip.direction_id[0]]?.paths.find(path => path.terminus_id === trip.direction_id[1])?.coordinates;
 
 			let totalDistance = 0;
 
@@ -156,8 +253,8 @@ function calculateEmissions(trip_details: any[], lignes: Map<string, Ligne>, sta
 				const physicalStation2 = stations.get(lastStation.logical_id)?.physical_stops[lastStation.physical_id];
 
 				if (physicalStation1 && physicalStation2) {
-					const closestPointIndex1 = findClosestPointIndex(physicalStation1.coords, path);
-					const closestPointIndex2 = findClosestPointIndex(physicalStation2.coords, path);
+					const closestPointIndex1 = path ? findClosestPointIndex(physicalStation1.coords, path) : -1;
+					const closestPointIndex2 = path ? findClosestPointIndex(physicalStation2.coords, path) : -1;
 
 					if (closestPointIndex1 !== -1 && closestPointIndex2 !== -1) {
 						if (closestPointIndex1 < closestPointIndex2) {
@@ -176,14 +273,16 @@ function calculateEmissions(trip_details: any[], lignes: Map<string, Ligne>, sta
 							}
 						}
 					} else {
-						console.log("Couldn't find closest points")
+						if (path) {
+							console.log("Couldn't find closest points")
+						}
 						const distance = haversine(physicalStation1.coords, physicalStation2.coords);
 						totalDistance += distance;
 					}
 				}
 			}
 
-			const emissionFactor = ligne.type === 0 ? emissionsTram : emissionsBus;
+			const emissionFactor = emissionsFactors[getVehicleType(ligne.type)];
 			const emissionsForTrip = (totalDistance / 1000) * emissionFactor; // Conversion des mètres en kilomètres
 			emissions += emissionsForTrip;
 		}
@@ -198,10 +297,12 @@ function calculateEmissions(trip_details: any[], lignes: Map<string, Ligne>, sta
  * 
  * @param stationIds - An array of station IDs to be filtered.
  * @param allowedVehicleTypes - An array of allowed vehicle types.
+ * @param activeDisruptions - The disruptions valid on the day of the search.
+ * @param accessible - Whether only the wheelchair accessible stops can be used.
  * 
  * @returns A filtered list of station IDs that match the allowed vehicle types.
  */
-function applyFilters(stationIds: string[], allowedVehicleTypes: VehicleType[]) : string[] {
+function applyFilters(stationIds: string[], allowedVehicleTypes: VehicleType[], activeDisruptions: Disruption[], accessible: boolean) : string[] {
 	let fliteredStations: string[] = [];
 	for (const stationId of stationIds) {
 		const station = stations.get(stationId);
@@ -220,7 +321,7 @@ function applyFilters(stationIds: string[], allowedVehicleTypes: VehicleType[])
 	}
 
 	if (fliteredStations.length === 0) {
-		fliteredStations = findClosestStations(stations.get(stationIds[0]).coords, stations, lignes, allowedVehicleTypes.map(type => [type, 2])); // assuming we take the first station
+		fliteredStations = findClosestStations(stations.get(stationIds[0]).coords, stations, lignes, activeDisruptions, accessible, allowedVehicleTypes.map(type => [type, 2])); // assuming we take the first station
 	}
 	return fliteredStations;
 }
@@ -235,7 +336,10 @@ function applyFilters(stationIds: string[], allowedVehicleTypes: VehicleType[])
  * @param lignes - A map of line IDs to Ligne objects.
  * @param startsWalk - A map of station IDs to WalkDetail objects for the start of the journey.
  * @param destsWalk - A map of station IDs to WalkDetail objects for the end of the journey.
+ * @param accessible - Whether to flag the legs whose wheelchair accessibility is unknown.
  * 
+ * The walks of startsWalk and destsWalk that are made by bike-share or by car are given as bike or car details.
+ *
  * @returns A formatted journey object or null if no trip details are found.
  */
 function formatJourney(
@@ -244,32 +348,51 @@ function formatJourney(
 	stations: Map<string, Station>,
 	lignes: Map<string, Ligne>,
 	startsWalk?: Map<string, WalkDetail>,
-	destsWalk?: Map<string, WalkDetail>
+	destsWalk?: Map<string, WalkDetail>,
+	accessible: boolean = false
 ): FormattedJourney | null {
 	const tripDetails: TripDetail[] = [];
-	for (const leg of journey.legs) {
-		if ((leg as TimetableLeg).trip !== undefined) {
-			const stationDetails: StationDetail[] = (leg as TimetableLeg).stopTimes.map(stopTime => {
-				const station = getLogicalStation(Number(stopTime.stopId), stations);
+	for (const journeyLeg of journey.legs) {
+		if ((journeyLeg as TimetableLeg).trip === undefined) continue;
+
+		// a stay-seated continuation is shown as the rides on each trip of the block
+		for (const [i, leg] of splitBlockContinuation(journeyLeg as TimetableLeg).entries()) {
+			const stationDetails: StationDetail[] = leg.stopTimes.map(stopTime => {
+				const station = getLogicalStation(toApiId(stopTime.stopId), stations);
 				return {
 					logical_id: station?.key,
-					physical_id: Number(stopTime.stopId),
-					nom: station?.station.nom,
+					physical_id: toApiId(stopTime.stopId),
+					nom: station?.station.nom ?? stopsData[stopTime.stopId]?.name,
 					time: stopTime.departureTime,
 				};
 			});
-			const stopTimes = tripsData.find(trip => trip.id === (leg as TimetableLeg).trip.id)?.stopTimes;
+			const stopTimes = tripsData.find(trip => trip.id === leg.trip.id)?.stopTimes;
 			if (!stopTimes) continue;
 			
-			tripDetails.push({
-				ligne_id: Number((leg as TimetableLeg).trip.routeId),
+			const tripDetail: TripDetail = {
+				ligne_id: toApiId(leg.trip.routeId),
 				direction_id: [
-					Number((leg as TimetableLeg).trip.directionId),
-					Number(stopTimes[stopTimes.length - 1].stopId),
-					Number((leg as TimetableLeg).trip.id)
+					Number(leg.trip.directionId),
+					toApiId(stopTimes[stopTimes.length - 1].stopId),
+					toApiId(leg.trip.id)
 				],
-				stations: stationDetails
-			});
+				feed: leg.trip.feedId,
+				stations: stationDetails,
+				realtime: leg.trip.realtime === true
+			};
+
+			if (i > 0) {
+				tripDetail.stay_seated = true;
+			}
+
+			if (accessible && (
+				parseAccessibility(leg.trip.wheelchairAccessible) === Accessibility.Unknown
+				|| getStopAccessibility(stopsData, leg.origin) === Accessibility.Unknown
+				|| getStopAccessibility(stopsData, leg.destination) === Accessibility.Unknown
+			)) {
+				tripDetail.accessibility_unknown = true;
+			}
+			tripDetails.push(tripDetail);
 		}
 	}
 	if (tripDetails.length === 0) {
@@ -277,6 +400,8 @@ function formatJourney(
 	}
 
 	let walkDetails: WalkDetail[] = [];
+	let bikeDetails: BikeDetail[] = [];
+	let carDetails: CarDetail[] = [];
 	let heureDepart = journey.departureTime;
 	let heureDestination = journey.arrivalTime;
 	if (startsWalk) {
@@ -285,7 +410,13 @@ function formatJourney(
 			const walk = { ...startsWalk.get(firstStation.logical_id)! }
 			walk.start_time = journey.departureTime - (walk.duration * 60) - MIN_INTERCHANGE_TIME;
 			walk.end_time = journey.departureTime - MIN_INTERCHANGE_TIME;
-			walkDetails.push(walk);
+			if (isBikeDetail(walk)) {
+				bikeDetails.push(walk);
+			} else if (isCarDetail(walk)) {
+				carDetails.push(walk);
+			} else {
+				walkDetails.push(walk);
+			}
 
 			heureDepart = walk.start_time;
 		}
@@ -297,7 +428,13 @@ function formatJourney(
 			let walk = { ...destsWalk.get(lastStation.logical_id)! }
 			walk.start_time = journey.arrivalTime + MIN_INTERCHANGE_TIME;
 			walk.end_time = journey.arrivalTime + MIN_INTERCHANGE_TIME + (walk.duration * 60);
-			walkDetails.push(walk);
+			if (isBikeDetail(walk)) {
+				bikeDetails.push(walk);
+			} else if (isCarDetail(walk)) {
+				carDetails.push(walk);
+			} else {
+				walkDetails.push(walk);
+			}
 
 			heureDestination = walk.end_time;
 		}
@@ -318,6 +455,21 @@ function formatJourney(
 		result.walk_details = walkDetails;
 	}
 
+	if (bikeDetails.length > 0) {
+		result.bike_details = bikeDetails;
+	}
+
+	if (carDetails.length > 0) {
+		result.car_details = carDetails;
+	}
+
+	const fare = fareCalculator.getFare(journey);
+	if (fare) {
+		result.price = fare.price;
+		result.currency = fare.currency;
+		result.products = fare.products.map(product => ({ id: product.id, nom: product.name, price: product.amount }));
+	}
+
 	return result;
 }
 
@@ -327,10 +479,11 @@ function formatJourney(
  * @param stationsDepartId - Array of departure station IDs.
  * @param stationsDestId - Array of destination station IDs.
  * @param dateTime - The date and time for the journey.
+ * @param stations - A map of station IDs to Station objects, of every feed.
  * 
  * @returns A boolean indicating whether the input is valid.
  */
-function checkInputArgs(stationsDepartId: string[], stationsDestId: string[], dateTime: Date) : boolean {
+function checkInputArgs(stationsDepartId: string[], stationsDestId: string[], dateTime: Date, stations: Map<string, Station>) : boolean {
 	// Stations check
 	if (!stationsDepartId || !stationsDestId) {
 		console.error("No stations provided");
@@ -360,8 +513,7 @@ function checkInputArgs(stationsDepartId: string[], stationsDestId: string[], da
 		return false;
 	}
 
-	const validStationRegex = /^S5\d{3}$/;
-	const validStationId = (id: string) => validStationRegex.test(id);
+	const validStationId = (id: string) => typeof id === 'string' && stations.has(id);
 	for (const stationDepartId of stationsDepartId) {
 		if (!validStationId(stationDepartId))
 			return false;
@@ -391,11 +543,213 @@ function checkInputArgs(stationsDepartId: string[], stationsDestId: string[], da
 }
 
 
+/**
+ * Tells whether the access (or egress) is made by bike-share rather than on foot.
+ */
+function isBikeDetail(walk: WalkDetail): walk is BikeDetail {
+	return (walk as BikeDetail).pickup !== undefined;
+}
+
+
+/**
+ * Tells whether the access is made by car from a park-and-ride lot rather than on foot.
+ */
+function isCarDetail(walk: WalkDetail): walk is CarDetail {
+	return (walk as CarDetail).parking_id !== undefined;
+}
+
+
+/**
+ * Builds the car access to a station: a drive to the park-and-ride lot, the time to park, and a walk to the station.
+ *
+ * @param start - The start coordinates.
+ * @param parkAndRide - The park-and-ride lot.
+ * @param distance - The driving distance to the park-and-ride lot (in meters).
+ * @param stationId - The station reached from the park-and-ride lot.
+ *
+ * @returns The car detail, or undefined if there is no path from the park-and-ride lot to the station.
+ */
+function getCarDetail(start: Coords, parkAndRide: ParkAndRide, distance: number, stationId: string): CarDetail | undefined {
+	const station = stations.get(stationId);
+	const walk = station && getProjectedPath(parkAndRide.coords, station.coords, routes, lineIndex, pathFinder);
+	if (!walk) {
+		return undefined;
+	}
+
+	const walkDistance = calcDistancePath(walk);
+	return {
+		path: [[start.longitude, start.latitude], [parkAndRide.coords.longitude, parkAndRide.coords.latitude], ...walk],
+		start_time: 0,
+		end_time: 0,
+		distance: distance,
+		duration: Math.ceil((distance / CAR_SPEED + parkingDuration + walkDistance / WALKING_SPEED) / 60),
+		parking_id: parkAndRide.id,
+		parking: parkAndRide.nom,
+		walk_distance: walkDistance
+	};
+}
+
+
+/**
+ * Checks that the park-and-ride lot of the car access, if any, is open when the car arrives.
+ *
+ * @param journey - The formatted journey.
+ *
+ * @returns A boolean indicating whether the journey is valid (true) or should be filtered out (false).
+ */
+function isParkAndRideJourneyOpen(journey: FormattedJourney): boolean {
+	return (journey.car_details || []).every(car => {
+		const parkAndRide = parkAndRides.find(parking => parking.id === car.parking_id);
+		return !parkAndRide || isParkAndRideOpen(parkAndRide, car.start_time + Math.round(car.distance / CAR_SPEED));
+	});
+}
+
+
+/**
+ * Builds the bike-share access (or egress) between two points: a walk to the closest station with a bike, a ride to
+ * the closest station with a free dock, and a walk to the end point.
+ *
+ * @param start - The start coordinates.
+ * @param finish - The finish coordinates.
+ *
+ * @returns The bike detail, or undefined if there is no bike or no dock close enough, or no path.
+ */
+function getBikeDetail(start: Coords, finish: Coords): BikeDetail | undefined {
+	const pickup = findClosestBikeStation(start, bikeStations, bikeStationRadius, true);
+	const dropoff = findClosestBikeStation(finish, bikeStations, bikeStationRadius, false);
+	if (!pickup || !dropoff || pickup === dropoff) {
+		return undefined;
+	}
+
+	const walkBefore = getProjectedPath(start, pickup.coords, routes, lineIndex, pathFinder);
+	const ride = getProjectedPath(pickup.coords, dropoff.coords, routes, lineIndex, pathFinder);
+	const walkAfter = getProjectedPath(dropoff.coords, finish, routes, lineIndex, pathFinder);
+	if (!walkBefore || !ride || !walkAfter) {
+		return undefined;
+	}
+
+	const distance = calcDistancePath(ride);
+	const walkDistance = calcDistancePath(walkBefore) + calcDistancePath(walkAfter);
+	return {
+		path: [...walkBefore, ...ride, ...walkAfter],
+		start_time: 0,
+		end_time: 0,
+		distance: distance,
+		duration: Math.ceil((distance / BIKE_SPEED + walkDistance / WALKING_SPEED) / 60),
+		pickup: pickup.nom,
+		dropoff: dropoff.nom,
+		walk_distance: walkDistance
+	};
+}
+
+
+/**
+ * Gives the walking distance of the access (or egress) walk to each physical stop of a station.
+ *
+ * @param physicalStops - The physical stop IDs of the station.
+ * @param walk - The walk to or from the station, if any.
+ * 
+ * @returns The walking distance indexed by physical stop ID.
+ */
+function getWalkingDistances(physicalStops: string[], walk?: WalkDetail): StopDistances {
+	const walkingDistances: StopDistances = {};
+	for (const physicalStop of physicalStops) {
+		walkingDistances[physicalStop] = walk ? ((walk as BikeDetail | CarDetail).walk_distance ?? walk.distance) : 0;
+	}
+	return walkingDistances;
+}
+
+/**
+ * Plans a journey search with the search workers, or on the main thread when there is no worker.
+ *
+ * @param request - The journey search.
+ * @param signal - Cancels the search when aborted.
+ *
+ * @throws {Error} The abort reason, if the search was cancelled.
+ *
+ * @returns The journeys found.
+ */
+async function planSearch(request: PlanRequest, signal: AbortSignal): Promise<Journey[]> {
+	if (searchPool) {
+		return searchPool.plan(request, signal);
+	}
+
+	signal.throwIfAborted();
+	return planJourneys(searchQueries[request.queries], request);
+}
+
+/**
+ * Plans an isochrone search with the search workers, or on the main thread when there is no worker.
+ *
+ * @param request - The isochrone search.
+ * @param signal - Cancels the search when aborted.
+ *
+ * @throws {Error} The abort reason, if the search was cancelled.
+ *
+ * @returns The earliest arrival time at every stop reached.
+ */
+async function planIsochroneSearch(request: IsochroneRequest, signal: AbortSignal): Promise<Arrivals> {
+	if (searchPool) {
+		return searchPool.isochrone(request, signal);
+	}
+
+	signal.throwIfAborted();
+	return planIsochrone(searchQueries[request.queries], request);
+}
+
+/**
+ * Walks from the coordinates to the closest stations, for an isochrone search from their stops.
+ *
+ * @param coords - The departure point.
+ * @param dateTime - The departure date, the closed stations of this date are not walked to.
+ * @param startTime - The departure time.
+ *
+ * @returns The time the transports can be taken at the stops of the stations reached.
+ */
+function getWalkedStops(coords: Coords, dateTime: Date, startTime: Time): StopTimes {
+	const origins: StopTimes = {};
+	for (const stationId of findClosestStations(coords, stations, lignes, getActiveDisruptions(disruptions, dateTime))) {
+		const station = stations.get(stationId);
+		const projectedPath = getProjectedPath(coords, station.coords, routes, lineIndex, pathFinder);
+		if (!projectedPath) continue;
+
+		const departureTime = startTime + Math.ceil(calcDistancePath(projectedPath) / WALKING_SPEED) + MIN_INTERCHANGE_TIME;
+		for (const stopId of Object.keys(station.physical_stops)) {
+			origins[stopId] = Math.min(origins[stopId] ?? Number.MAX_SAFE_INTEGER, departureTime);
+		}
+	}
+
+	return origins;
+}
+
+/**
+ * Returns a signal aborted when a search takes longer than the timeout, or when the client disconnects.
+ */
+function getSearchSignal(res: Response): AbortSignal {
+	const search = new AbortController();
+	const searchTimer = setTimeout(() => search.abort(new Error("Search timed out")), searchTimeout);
+
+	res.on('close', () => {
+		clearTimeout(searchTimer);
+		search.abort(new Error("Client disconnected"));
+	});
+
+	return search.signal;
+}
+
+/**
+ * Returns true if the searches are planned by the search workers, which is the case when there are workers and a
+ * timetable snapshot to share with them. The main thread then does not build the queries.
+ */
+function useSearchPool(snapshot: Uint8Array | undefined): boolean {
+	return searchWorkers > 0 && snapshot !== undefined;
+}
+
 /**
  * Searches for journeys between departure and destination stations.
  *
- * @param queryDepart - The query object used to plan the journey from the departure stations.
- * @param queryArrive - The query object used to plan the journey to the destination stations.
+ * @param engine - The name of the queries used to plan the journeys, all sharing the same RAPTOR engine.
+ * @param signal - Cancels the search when aborted, e.g. on a timeout or when the client disconnects.
  * @param stationsDepartId - An array of IDs representing the departure stations.
  * @param stationsDestId - An array of IDs representing the destination stations.
  * @param dateTime - The date and time for which the journey is planned.
@@ -403,12 +757,14 @@ function checkInputArgs(stationsDepartId: string[], stationsDestId: string[], da
  * @param stations - A map of station IDs to Station objects.
  * @param lignes - A map of line IDs to Ligne objects.
  * @param indexedTrips - A map of trip IDs to arrays of StopTime objects.
+ * @param rangeEnd - The end of the departure window, when every journey departing between dateTime and rangeEnd is wanted.
+ * @param accessible - Whether the search is wheelchair accessible, the legs with an unknown accessibility are then flagged.
  * 
- * @returns An array of formatted journey objects, sorted by the number of trip details.
+ * @returns An array of formatted journey objects, sorted by the number of trip details (or by departure time for a range).
  */
 async function searchJourneys(
-		queryDepart: GroupStationDepartAfterQuery,
-		queryArrive: GroupStationArriveByQuery,
+		engine: keyof SearchQueries,
+		signal: AbortSignal,
 		allowedVehicleTypes: VehicleType[],
 		stationsDepartId: string[],
 		stationsDestId: string[],
@@ -417,7 +773,9 @@ async function searchJourneys(
 		stations: Map<string, Station>,
 		lignes: Map<string, Ligne>,
 		startsWalk?: Map<string, WalkDetail>,
-		destsWalk?: Map<string, WalkDetail>
+		destsWalk?: Map<string, WalkDetail>,
+		rangeEnd?: Date,
+		accessible: boolean = false
 	) {
 	let journeys: FormattedJourney[] = [];
 	const timeParser = new TimeParser();
@@ -439,15 +797,20 @@ async function searchJourneys(
 					date.setSeconds(date.getSeconds() + (walk.duration * 60) + MIN_INTERCHANGE_TIME);
 				}
 
-				const plausibleJourneys = queryDepart.plan(
-					physicalStationsDepart,
-					physicalStationsDest,
-					date,
-					timeParser.getTimeFromDate(date)
-				);
+				const time = timeParser.getTimeFromDate(date);
+				const plausibleJourneys = await planSearch({
+					queries: engine,
+					type: rangeEnd ? 'range' : 'depart',
+					origins: physicalStationsDepart,
+					destinations: physicalStationsDest,
+					date: date,
+					time: time,
+					endTime: rangeEnd ? time + Math.floor((rangeEnd.getTime() - dateTime.getTime()) / 1000) : undefined,
+					walkingDistances: getWalkingDistances(physicalStationsDepart, startsWalk?.get(stationDepartId)),
+				}, signal);
 				for (const journey of plausibleJourneys) {
-					const formattedJourney = formatJourney(journey, dateTime, stations, lignes, startsWalk, destsWalk);
-					if (filterJourney(allowedVehicleTypes, formattedJourney)) {
+					const formattedJourney = formatJourney(journey, dateTime, stations, lignes, startsWalk, destsWalk, accessible);
+					if (formattedJourney && filterJourney(allowedVehicleTypes, formattedJourney)) {
 						journeys.push(formattedJourney);
 					}
 				}
@@ -459,31 +822,38 @@ async function searchJourneys(
 					date.setSeconds(date.getSeconds() - (walk.duration * 60) - MIN_INTERCHANGE_TIME);
 				}
 
-				const plausibleJourneys = queryArrive.plan(
-					physicalStationsDepart,
-					physicalStationsDest,
-					date,
-					timeParser.getTimeFromDate(date)
-				);
+				const plausibleJourneys = await planSearch({
+					queries: engine,
+					type: 'arrive',
+					origins: physicalStationsDepart,
+					destinations: physicalStationsDest,
+					date: date,
+					time: timeParser.getTimeFromDate(date),
+					walkingDistances: getWalkingDistances(physicalStationsDest, destsWalk?.get(stationDestId)),
+				}, signal);
 				for (const journey of plausibleJourneys) {
-					const formattedJourney = formatJourney(journey, dateTime, stations, lignes, startsWalk, destsWalk);
-					if (filterJourney(allowedVehicleTypes, formattedJourney)) {
+					const formattedJourney = formatJourney(journey, dateTime, stations, lignes, startsWalk, destsWalk, accessible);
+					if (formattedJourney && filterJourney(allowedVehicleTypes, formattedJourney)) {
 						journeys.push(formattedJourney);
 					}
 				}
 			}
 
-			if (journeys.length > 5) {
+			if (!rangeEnd && journeys.length > 5) {
 				break;
 			}
 		}
 
-		if (journeys.length > 10) {
+		if (!rangeEnd && journeys.length > 10) {
 			break;
 		}
 	}
 
-	journeys.sort((a, b) => a.trip_details.length - b.trip_details.length);
+	if (rangeEnd) {
+		journeys.sort((a, b) => a.heure_depart - b.heure_depart);
+	} else {
+		journeys.sort((a, b) => a.trip_details.length - b.trip_details.length);
+	}
 	return journeys;
 }
 
@@ -495,6 +865,8 @@ async function searchJourneys(
  * @param coords Coordinates to search from
  * @param stations Map of stations
  * @param lignes Map of lignes
+ * @param activeDisruptions Disruptions valid on the day of the search, closed stops and lignes are ignored
+ * @param accessible Whether to ignore the stops that are not wheelchair accessible
  * @param resultsByVehicule Array of [VehicleType, number] to specify how many stations to find for each vehicle type
  * 
  * @returns Array of station ids
@@ -503,19 +875,28 @@ export function findClosestStations(
 	coords: Coords,
 	stations: Map<string, Station>,
 	lignes: Map<string, Ligne>,
+	activeDisruptions: Disruption[] = [],
+	accessible: boolean = false,
 	resultsByVehicule: [VehicleType, number][] = [
 		[VehicleType.Tram, 1],
 		[VehicleType.Bus, 3]
 	]
 ): string[] {
 	const distances: { station: string; distance: number, vehicules: VehicleType[] }[] = [];
+	const closedStops = getClosedStops(activeDisruptions);
+	const closedLignes = getClosedLignes(activeDisruptions);
 
 	for (const [id, station] of stations.entries()) {
 		const distance = haversine(coords, station.coords);
 		const vehicules = new Set<VehicleType>();
 
-		for (const physicalStop of Object.values(station.physical_stops)) {
+		for (const [physicalStopId, physicalStop] of Object.entries(station.physical_stops)) {
+			if (closedStops.has(toApiId(physicalStopId))) continue;
+			if (accessible && parseAccessibility(physicalStop.wheelchair_boarding) === Accessibility.Inaccessible) continue;
+
 			for (const ligneId of physicalStop.linked_lignes) {
+				if (closedLignes.has(ligneId)) continue;
+
 				const ligne = lignes.get(ligneId.toString());
 				if (ligne) {
 					const vehiculeType = getVehicleType(ligne.type);
@@ -557,6 +938,99 @@ export function findClosestStations(
 	return selectedStations;
 }
 
+/**
+ * Reads the stations, lignes, walking routes and GTFS files, and checks that they can be used.
+ *
+ * @throws {Error} If a file is missing or the datas are invalid.
+ *
+ * @returns The timetable datas.
+ */
+async function loadDatas(): Promise<Datas> {
+	const [
+		stationsStr,
+		lignesStr,
+		routesStr,
+	] = await Promise.all([
+		fs.readFile('exports/stations.json', 'utf-8'),
+		fs.readFile('exports/lignes.json', 'utf-8'),
+		fs.readFile('datas/routes.geojson', 'utf-8'),
+	]);
+
+	const [{ trips, transfers, interchange, stops, fares }, snapshot] = await loadTimetable();
+	const datas: Datas = {
+		stations: new Map<string, Station>(Object.entries(JSON.parse(stationsStr))),
+		lignes: new Map<string, Ligne>(Object.entries(JSON.parse(lignesStr))),
+		routes: JSON.parse(routesStr),
+		trips: trips,
+		transfers: transfers,
+		interchange: interchange,
+		stops: stops,
+		fareCalculator: new FareCalculator(fares, stops),
+		snapshot: snapshot,
+	};
+
+	validateDatas(datas);
+	return datas;
+}
+
+/**
+ * Checks that the datas are complete, e.g. not read while the getter was writing them.
+ *
+ * @param datas - The timetable datas.
+ *
+ * @throws {Error} If the datas are invalid.
+ */
+function validateDatas(datas: Datas): void {
+	if (datas.stations.size === 0) {
+		throw new Error("No station");
+	}
+	if (datas.lignes.size === 0) {
+		throw new Error("No ligne");
+	}
+	if (!Array.isArray(datas.routes.features) || datas.routes.features.length === 0) {
+		throw new Error("No walking route");
+	}
+
+	const scheduledTrips = datas.trips.filter(trip => trip.stopTimes && trip.stopTimes.length > 1);
+	if (scheduledTrips.length === 0) {
+		throw new Error("No trip with stop times");
+	}
+
+	const tripWithoutService = scheduledTrips.find(trip => !trip.service);
+	if (tripWithoutService) {
+		throw new Error(`Trip ${tripWithoutService.id} has no calendar`);
+	}
+}
+
+/**
+ * Makes the datas the ones used by the requests.
+ */
+function setDatas(datas: Datas): void {
+	stations = datas.stations;
+	lignes = datas.lignes;
+	routes = datas.routes;
+	tripsData = datas.trips;
+	transfersData = datas.transfers;
+	interchangeData = datas.interchange;
+	stopsData = datas.stops;
+	fareCalculator = datas.fareCalculator;
+	timetableSnapshot = datas.snapshot;
+}
+
+/**
+ * Builds the path finder, its spatial index and the walking graph from the walking routes, then makes them the ones
+ * used by the requests.
+ */
+function setWalkNetwork(routes: FeatureCollection<LineString>): void {
+	const newPathFinder = new PathFinder(routes, {tolerance: 0.00001});
+	const newLineIndex = buildFlatbushIndex(routes);
+	const newWalkGraph = buildWalkGraph(routes);
+
+	pathFinder = newPathFinder;
+	lineIndex = newLineIndex;
+	walkGraph = newWalkGraph;
+}
+
 /**
  * Retrieves the datas required by functions
  * 
@@ -564,24 +1038,11 @@ export function findClosestStations(
  */
 async function getDatas(): Promise<boolean> {
 	try {
-		const [
-			stationsStr,
-			lignesStr,
-			routesStr,
-		] = await Promise.all([
-			fs.readFile('exports/stations.json', 'utf-8'),
-			fs.readFile('exports/lignes.json', 'utf-8'),
-			fs.readFile('datas/routes.geojson', 'utf-8'),
-		]);
-	
-		stations = new Map<string, Station>(Object.entries(JSON.parse(stationsStr)));
-		lignes = new Map<string, Ligne>(Object.entries(JSON.parse(lignesStr)));
-		routes = JSON.parse(routesStr);
-
-		const { trips, transfers, interchange } = await loadGTFS();
-		tripsData = trips;
-		transfersData = transfers;
-		interchangeData = interchange;
+		setDatas(await loadDatas());
+
+		disruptions = await loadDisruptions(disruptionsPath);
+		bikeStations = await loadBikeStations(bikeSharePath);
+		parkAndRides = await loadParkAndRides(parkAndRidePath);
 	
 	  return true;
 	} catch (error) {
@@ -590,6 +1051,158 @@ async function getDatas(): Promise<boolean> {
 	}
 }
 
+/**
+ * Creates the RAPTOR engines and their queries from the scheduled trips and the latest realtime updates. When only the
+ * realtime updates changed, the RAPTOR instances of the previous engines are kept for the dates that did not change.
+ * The queries are only built when the searches are not planned by the search workers.
+ *
+ * @returns The engines, not used by the requests until they are set.
+ */
+function createEngines(
+	scheduledTrips: Trip[],
+	transfers: TransfersByOrigin,
+	interchange: Interchange,
+	stops: StopIndex,
+	snapshot: Uint8Array | undefined,
+	previous?: SearchQueries,
+	changedDates?: Set<DateNumber>
+): Engines {
+	const trips = applyTripUpdates(scheduledTrips, tripUpdates);
+
+	return {
+		searchQueries: useSearchPool(snapshot)
+			? null
+			: createSearchQueries(trips, transfers, interchange, stops, disruptions, transferPatternStorage, previous, changedDates),
+		departureBoard: new DepartureBoard(applyDisruptions(trips, disruptions)),
+	};
+}
+
+/**
+ * Makes the engines the ones used by the requests.
+ */
+function setEngines(engines: Engines): void {
+	({ searchQueries, departureBoard } = engines);
+}
+
+/**
+ * Builds the RAPTOR engines and their queries from the current datas.
+ *
+ * @param changedDates - The dates whose realtime updates changed, when nothing else did.
+ */
+function buildQueries(changedDates?: Set<DateNumber>): void {
+	const previous = changedDates ? searchQueries ?? undefined : undefined;
+
+	setEngines(createEngines(tripsData, transfersData, interchangeData, stopsData, timetableSnapshot, previous, changedDates));
+	searchPool?.setTimetable({ tripUpdates, disruptions, changedDates: changedDates && [...changedDates] });
+}
+
+/**
+ * Gives the timetable snapshot to the search workers, the pool is started the first time. The searches are planned on
+ * the main thread when there is no snapshot to share.
+ *
+ * @returns A promise resolved once every worker uses the snapshot.
+ */
+async function updateSearchPool(snapshot: Uint8Array | undefined): Promise<void> {
+	if (searchWorkers <= 0) return;
+
+	if (!snapshot) {
+		searchPool?.close();
+		searchPool = null;
+		console.warn("No timetable snapshot, the journey searches are planned on the main thread.");
+	} else if (searchPool) {
+		await searchPool.setTimetable({ snapshot, tripUpdates, disruptions });
+	} else {
+		searchPool = new SearchPool(
+			join(__dirname, 'search', 'SearchWorker.js'),
+			searchWorkers,
+			maxSearchQueue,
+			{ snapshot, tripUpdates, disruptions }
+		);
+	}
+}
+
+/**
+ * Reloads the timetable datas in the background and swaps them, with the walking network and the engines built from
+ * them, once they are all ready. The previous datas stay in use when the new ones cannot be loaded or are invalid.
+ * A reload requested while another one is running waits for it.
+ *
+ * @throws {Error} If the new datas cannot be used.
+ */
+function reloadDatas(): Promise<void> {
+	if (!datasReload) {
+		datasReload = (async () => {
+			const datas = await loadDatas();
+			const engines = createEngines(datas.trips, datas.transfers, datas.interchange, datas.stops, datas.snapshot);
+
+			// the searches are held until every worker uses the new snapshot, so that the journeys they find are
+			// formatted with the datas they were planned on
+			await updateSearchPool(datas.snapshot);
+
+			// nothing is awaited from here, a request sees either the previous datas or the new ones
+			setWalkNetwork(datas.routes);
+			setDatas(datas);
+			setEngines(engines);
+			console.log(`Datas reloaded (${datas.trips.length} trips).`);
+		})().finally(() => {
+			datasReload = null;
+		});
+	}
+	return datasReload;
+}
+
+/**
+ * Loads the latest GTFS-Realtime snapshot and rebuilds the queries with it, unless the snapshot did not change since
+ * the previous one. The previous updates stay in use when the snapshot cannot be read.
+ *
+ * @param source - The path or URL of the TripUpdates snapshot.
+ */
+async function refreshRealtime(source: string): Promise<void> {
+	let feed: TripUpdateFeed;
+	try {
+		feed = await loadTripUpdates(source);
+	} catch (error) {
+		console.error("Données temps réel non disponibles :", error);
+		return;
+	}
+
+	if (feed.timestamp !== undefined && feed.timestamp === tripUpdatesTimestamp) return;
+
+	// only the RAPTOR instances of the dates whose updates changed are built again
+	const changedDates = getChangedDates(tripUpdates, feed.updates);
+	tripUpdates = feed.updates;
+	tripUpdatesTimestamp = feed.timestamp;
+	if (changedDates.size > 0) {
+		buildQueries(changedDates);
+	}
+}
+
+/**
+ * Reloads the disruption definition file and rebuilds the queries with it.
+ * The previous disruptions stay in use when the file is invalid.
+ */
+async function reloadDisruptions(): Promise<void> {
+	try {
+		disruptions = await loadDisruptions(disruptionsPath);
+	} catch (error) {
+		console.error("Fichier des perturbations invalide :", error);
+		return;
+	}
+	buildQueries();
+	console.log(`Disruptions reloaded (${disruptions.length}).`);
+}
+
+/**
+ * Reloads the GBFS feed to follow the availability of the bikes and docks.
+ * The previous stations stay in use when the feed is invalid.
+ */
+async function reloadBikeStations(): Promise<void> {
+	try {
+		bikeStations = await loadBikeStations(bikeSharePath);
+	} catch (error) {
+		console.error("Flux GBFS invalide :", error);
+	}
+}
+
 /**
  * Initializes and starts the Itineraire API.
  *
@@ -614,22 +1227,56 @@ async function startItineraireAPI() {
 	console.log("Datas loaded.");
 
 	// PathFinder config
-	pathFinder = new PathFinder(routes, {tolerance: 0.00001});
-	lineIndex = buildFlatbushIndex(routes);
+	setWalkNetwork(routes);
 	console.log("PathFinder ready.");
 
-	// RAPTOR config
-	const raptor = RaptorAlgorithmFactory.create(tripsData, transfersData, interchangeData);
-	const resultsFactory = new JourneyFactory();
-	const departFilter = new MultipleCriteriaDepartAfterFilter();
-	const arrivalFilter = new MultipleCriteriaArriveByFilter();
-	const queryDepart = new GroupStationDepartAfterQuery(raptor, resultsFactory, 1, [departFilter]);
-	const queryArrive = new GroupStationArriveByQuery(raptor, resultsFactory, 1, [arrivalFilter]);
+	// Transfer patterns config
+	if (transferPatternsDatabase) {
+		transferPatternStorage = createTransferPatternStorage(transferPatternsDatabase);
+		console.log("Transfer patterns ready.");
+	}
+
+	// RAPTOR & McRAPTOR config
+	buildQueries();
 	console.log("RAPTOR ready.");
 
+	// Search workers config
+	await updateSearchPool(timetableSnapshot);
+	if (searchPool) {
+		console.log(`${searchWorkers} search workers ready.`);
+	}
+
+	// GTFS-Realtime config
+	if (realtimeSource) {
+		await refreshRealtime(realtimeSource);
+		setInterval(() => refreshRealtime(realtimeSource), realtimeRefreshInterval);
+		console.log("GTFS-Realtime ready.");
+	}
+
+	// Disruptions config
+	watchFile(disruptionsPath, { interval: disruptionsWatchInterval }, () => reloadDisruptions());
+
+	// Hot reload config, the requests keep being answered with the previous datas while the new ones are loaded
+	let datasReloadTimeout: NodeJS.Timeout | undefined;
+	watchFile(datasWatchedPath, { interval: datasWatchInterval }, () => {
+		clearTimeout(datasReloadTimeout);
+		datasReloadTimeout = setTimeout(() => {
+			reloadDatas().catch(error => console.error("Nouvelles données invalides, les précédentes restent utilisées :", error));
+		}, datasReloadDelay);
+	});
+
+	addAdminRoutes(app, {
+		token: adminToken,
+		reloadDatas,
+		getDatasSummary: () => ({ trips: tripsData.length, stations: stations.size }),
+	});
+
+	// Bike-share config
+	watchFile(join(bikeSharePath, 'station_status.json'), { interval: bikeShareWatchInterval }, () => reloadBikeStations());
+
 	app.post('/itineraire/trip', async (req: Request, res: Response) => {
-		const { depart, destination, datetime, isAller, startLat, startLon, destLat, destLon, filters } = req.body;
-		let allowedVehicleTypes: VehicleType[] = [ VehicleType.Tram, VehicleType.Bus ];
+		const { depart, destination, datetime, rangeEnd, isAller, startLat, startLon, destLat, destLon, filters, multiCriteria, accessible, sort, parkAndRide } = req.body;
+		let allowedVehicleTypes: VehicleType[] = allVehicleTypes;
 
 		const hasStartCoordinates = startLat !== undefined && startLon !== undefined;
 		const hasEndCoordinates = destLat !== undefined && destLon !== undefined;
@@ -659,21 +1306,32 @@ async function startItineraireAPI() {
 			return res.status(400).json({ error: 'Invalid filters.' });
 		}
 
-		if (filters) {
-			allowedVehicleTypes = [];
-			for (const filter of filters) {
-				if (filter === 'tram') {
-					allowedVehicleTypes.push(VehicleType.Tram);
-				} else if (filter === 'bus') {
-					allowedVehicleTypes.push(VehicleType.Bus);
-				}
-			}
+		// bike-share is not a vehicle type, it only allows to reach the stops by bike
+		const bikeshare = Array.isArray(filters) && filters.includes('bikeshare');
+		const vehicleFilters = Array.isArray(filters) ? filters.filter(filter => filter !== 'bikeshare') : filters;
+
+		if (vehicleFilters && vehicleFilters.length > 0) {
+			allowedVehicleTypes = getVehicleTypesFromFilters(vehicleFilters);
 
 			if (allowedVehicleTypes.length === 0) {
 				return res.status(400).json({ error: 'Invalid filters.' });
 			}
 		}
 
+		if (accessible !== undefined && typeof accessible !== 'boolean') {
+			return res.status(400).json({ error: 'Invalid accessible.' });
+		}
+
+		if (sort !== undefined && sort !== 'price') {
+			return res.status(400).json({ error: 'Invalid sort.' });
+		}
+
+		if (parkAndRide !== undefined && (typeof parkAndRide !== 'boolean' || (parkAndRide && !hasStartCoordinates))) {
+			return res.status(400).json({ error: 'Invalid parkAndRide.' });
+		}
+
+		const activeDisruptions = getActiveDisruptions(disruptions, new Date(datetime));
+
 		if (hasDepartStation) {
 			let tempDepartStations: string[] = [];
 			if (typeof depart === 'string') {
@@ -683,7 +1341,7 @@ async function startItineraireAPI() {
 			} else {
 				return res.status(400).json({ error: 'Invalid depart station.' });
 			}
-			stationsDepartIds = applyFilters(tempDepartStations, allowedVehicleTypes);
+			stationsDepartIds = applyFilters(tempDepartStations, allowedVehicleTypes, activeDisruptions, accessible === true);
 		}
 
 		if (hasDestinationStation) {
@@ -695,15 +1353,25 @@ async function startItineraireAPI() {
 			} else {
 				return res.status(400).json({ error: 'Invalid destination station.' });
 			}
-			stationsDestIds = applyFilters(tempDestStations, allowedVehicleTypes);
+			stationsDestIds = applyFilters(tempDestStations, allowedVehicleTypes, activeDisruptions, accessible === true);
 		}
 
 		const dateTime = new Date(datetime);
-		if (!checkInputArgs(stationsDepartIds, stationsDestIds, dateTime) || typeof isAller !== 'boolean') {
+		if (!checkInputArgs(stationsDepartIds, stationsDestIds, dateTime, stations) || typeof isAller !== 'boolean') {
 			res.status(400).send("Invalid parameters");
 			return;
 		}
 
+		let rangeEndDateTime: Date | undefined;
+		if (rangeEnd !== undefined) {
+			rangeEndDateTime = new Date(rangeEnd);
+			const rangeDuration = (rangeEndDateTime.getTime() - dateTime.getTime()) / 1000;
+
+			if (!isAller || isNaN(rangeDuration) || rangeDuration <= 0 || rangeDuration > maxRangeDuration) {
+				return res.status(400).json({ error: 'Invalid range end.' });
+			}
+		}
+
 		let startsWalk: Map<string, WalkDetail> = new Map();
 		let destsWalk: Map<string, WalkDetail> = new Map();
 
@@ -714,9 +1382,9 @@ async function startItineraireAPI() {
 
 			const startCoords = { latitude: startLat, longitude: startLon };
 			if (filters) {
-				stationsDepartIds.push(...findClosestStations(startCoords, stations, lignes, allowedVehicleTypes.map(type => [type, 2])));
+				stationsDepartIds.push(...findClosestStations(startCoords, stations, lignes, activeDisruptions, accessible === true, allowedVehicleTypes.map(type => [type, 2])));
 			} else {
-				stationsDepartIds.push(...findClosestStations(startCoords, stations, lignes));
+				stationsDepartIds.push(...findClosestStations(startCoords, stations, lignes, activeDisruptions, accessible === true));
 			}
 
 			for (const stationId of stationsDepartIds) {
@@ -734,12 +1402,39 @@ async function startItineraireAPI() {
 							duration: Math.ceil((distance / 1.4) / 60)
 						}
 					);
-				} else {
+				}
+
+				// the bike is only offered when it is faster than walking
+				const bike = bikeshare ? getBikeDetail(startCoords, station.coords) : undefined;
+				if (bike && (!startsWalk.has(stationId) || bike.duration < startsWalk.get(stationId).duration)) {
+					startsWalk.set(stationId, bike);
+				}
+
+				if (!startsWalk.has(stationId)) {
 					stationsDepartIds = stationsDepartIds.filter(id => id !== stationId);
 				}
 			}
 		}
 
+		if (parkAndRide) {
+			const startCoords = { latitude: startLat, longitude: startLon };
+
+			// the stations reached by car are searched first, the closest lots first
+			for (const [parking, distance] of findParkAndRides(startCoords, parkAndRides, maxParkAndRideDistance).reverse()) {
+				for (const stationId of parking.stations) {
+					const car = getCarDetail(startCoords, parking, distance, stationId);
+					if (!car) continue;
+
+					if (!startsWalk.has(stationId) || car.duration < startsWalk.get(stationId).duration) {
+						startsWalk.set(stationId, car);
+					}
+					if (!stationsDepartIds.includes(stationId)) {
+						stationsDepartIds.unshift(stationId);
+					}
+				}
+			}
+		}
+
 		if (hasEndCoordinates) {
 			if (isNaN(destLat) || isNaN(destLon)) {
 				return res.status(400).json({ error: 'Invalid end coordinates.' });
@@ -747,9 +1442,9 @@ async function startItineraireAPI() {
 
 			const destCoords = { latitude: destLat, longitude: destLon };
 			if (filters) {
-				stationsDestIds.push(...findClosestStations(destCoords, stations, lignes, allowedVehicleTypes.map(type => [type, 2])));
+				stationsDestIds.push(...findClosestStations(destCoords, stations, lignes, activeDisruptions, accessible === true, allowedVehicleTypes.map(type => [type, 2])));
 			} else {
-				stationsDestIds.push(...findClosestStations(destCoords, stations, lignes));
+				stationsDestIds.push(...findClosestStations(destCoords, stations, lignes, activeDisruptions, accessible === true));
 			}
 
 			for (const stationId of stationsDestIds) {
@@ -767,25 +1462,73 @@ async function startItineraireAPI() {
 							duration: Math.ceil((distance / 1.4) / 60)
 						}
 					);
-				} else {
+				}
+
+				// the bike is only offered when it is faster than walking
+				const bike = bikeshare ? getBikeDetail(station.coords, destCoords) : undefined;
+				if (bike && (!destsWalk.has(stationId) || bike.duration < destsWalk.get(stationId).duration)) {
+					destsWalk.set(stationId, bike);
+				}
+
+				if (!destsWalk.has(stationId)) {
 					stationsDestIds = stationsDestIds.filter(id => id !== stationId);
 				}
 			}
 		}
 
-		var journeys = await searchJourneys(
-			queryDepart,
-			queryArrive,
-			allowedVehicleTypes,
-			stationsDepartIds,
-			stationsDestIds,
-			dateTime,
-			isAller,
-			stations,
-			lignes,
-			startsWalk,
-			destsWalk
-		);
+		if (multiCriteria !== undefined && typeof multiCriteria !== 'boolean') {
+			return res.status(400).json({ error: 'Invalid multiCriteria.' });
+		}
+
+		if (searchPool?.isFull()) {
+			res.setHeader('Retry-After', searchRetryAfter);
+			return res.status(503).json({ error: 'Too many searches in progress.' });
+		}
+
+		// the search is cancelled when it takes too long or when the client disconnects
+		const signal = getSearchSignal(res);
+
+		let journeys: FormattedJourney[];
+		try {
+			journeys = await searchJourneys(
+				accessible
+					? (multiCriteria ? 'accessibleMcQueries' : 'accessibleQueries')
+					: (multiCriteria ? 'mcQueries' : 'queries'),
+				signal,
+				allowedVehicleTypes,
+				stationsDepartIds,
+				stationsDestIds,
+				dateTime,
+				isAller,
+				stations,
+				lignes,
+				startsWalk,
+				destsWalk,
+				rangeEndDateTime,
+				accessible === true
+			);
+		} catch (error) {
+			if (signal.aborted) {
+				return res.status(504).json({ error: 'Search timed out.' });
+			}
+			throw error;
+		}
+
+		// the opening hours are checked once the time the car arrives at the park-and-ride lot is known
+		if (parkAndRide) {
+			journeys = journeys.filter(isParkAndRideJourneyOpen);
+		}
+
+		for (const journey of journeys) {
+			const messages = getJourneyDisruptions(journey, activeDisruptions);
+			if (messages.length > 0) {
+				journey.disruptions = messages;
+			}
+		}
+
+		if (sort === 'price') {
+			journeys.sort((a, b) => (a.price ?? Number.MAX_VALUE) - (b.price ?? Number.MAX_VALUE));
+		}
 		res.status(200).json(journeys);
 	});
 
@@ -816,6 +1559,23 @@ async function startItineraireAPI() {
 		);
 	});
 
+	addIsochroneRoutes(app, {
+		get walkGraph() { return walkGraph; },
+		get stops() { return stopsData; },
+		searchRetryAfter,
+		getWalkedStops,
+		isSearchPoolFull: () => searchPool?.isFull() === true,
+		getSearchSignal,
+		planIsochroneSearch,
+	});
+
+	addDepartureRoutes(app, {
+		get stations() { return stations; },
+		get lignes() { return lignes; },
+		get departureBoard() { return departureBoard; },
+		getPhysicalStopKeys: (stationId, allowedVehicleTypes) => getPhysicalStopKeys(stations, stationId, allowedVehicleTypes),
+	});
+
 	app.post('/itineraire/delay', async (req: Request, res: Response) => {
 		const { tripDetails, partir, newDate }: { tripDetails: TripDetail[]; partir: boolean; newDate: string } = req.body;
 
@@ -838,15 +1598,17 @@ async function startItineraireAPI() {
 				newTrip.push({
 					ligne_id: tripDetail.ligne_id,
 					direction_id: [tripDetail.direction_id[0], matchingTrip.terminusId, matchingTrip.tripId],
+					feed: matchingTrip.feedId,
 					stations: matchingTrip.subSequence.map(stop => {
-						const station = getLogicalStation(Number(stop.stopId), stations);
+						const station = getLogicalStation(toApiId(stop.stopId), stations);
 						return {
 							logical_id: station!.key,
-							physical_id: Number(stop.stopId),
+							physical_id: toApiId(stop.stopId),
 							nom: station!.station.nom,
 							time: timeParser.getTimeFromDate(timeToDate(stop.departureTime, headTime))
 						};
-					})
+					}),
+					realtime: false
 				});
 
 				headTime = timeToDate(matchingTrip.subSequence[matchingTrip.subSequence.length - 1].departureTime, headTime);
@@ -864,15 +1626,17 @@ async function startItineraireAPI() {
 				newTrip.unshift({
 					ligne_id: tripDetail.ligne_id,
 					direction_id: [tripDetail.direction_id[0], matchingTrip.terminusId, matchingTrip.tripId],
+					feed: matchingTrip.feedId,
 					stations: matchingTrip.subSequence.map(stop => {
-						const station = getLogicalStation(Number(stop.stopId), stations);
+						const station = getLogicalStation(toApiId(stop.stopId), stations);
 						return {
 							logical_id: station!.key,
-							physical_id: Number(stop.stopId),
+							physical_id: toApiId(stop.stopId),
 							nom: station!.station.nom,
 							time: timeParser.getTimeFromDate(timeToDate(stop.arrivalTime, headTime))
 						};
-					})
+					}),
+					realtime: false
 				});
 
 				headTime = timeToDate(matchingTrip.subSequence[0].arrivalTime, headTime);
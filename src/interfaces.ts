@@ -6,7 +6,7 @@ export interface Station {
 			coords: Coords;
 			station_code: string;
 			wheelchair_boarding: number;
-			linked_lignes: number[];
+			linked_lignes: (number | string)[];
 		};
 	};
 }
@@ -44,15 +44,20 @@ export interface Coords {
 	longitude: number;
 }
 
+// IDs of the main feed are numbers, the namespaced IDs of the other feeds are strings (e.g. "ter:87773002")
 export interface TripDetail {
-	ligne_id: number;
-	direction_id: [number, number, number];
+	ligne_id: number | string;
+	direction_id: [number, number | string, number | string];
+	feed: string;
 	stations: StationDetail[];
+	realtime: boolean;
+	accessibility_unknown?: boolean;
+	stay_seated?: boolean;
 }
 
 export interface StationDetail {
 	logical_id: string | undefined;
-	physical_id: number;
+	physical_id: number | string;
 	nom: string | undefined;
 	time: number;
 }
@@ -67,31 +72,177 @@ export interface FormattedJourney {
 	emissions: number;
 	trip_details: TripDetail[];
 	walk_details?: WalkDetail[];
+	bike_details?: BikeDetail[];
+	car_details?: CarDetail[];
+	disruptions?: string[];
+	price?: number;
+	currency?: string;
+	products?: ProductDetail[];
+}
+
+export interface DepartureGroup {
+	ligne_id: number | string;
+	terminus_id: number | string;
+	terminus: string | undefined;
+	departures: DepartureDetail[];
+}
+
+export interface DepartureDetail {
+	physical_id: number | string;
+	trip_id: number | string;
+	time: number;
+	headsign: string;
+	realtime: boolean;
+}
+
+export interface ProductDetail {
+	id: string;
+	nom: string;
+	price: number;
 }
 
 export enum VehicleType {
 	Tram,
 	Bus,
+	Metro,
+	Rail,
+	Coach,
+	OnDemand,
+	Shuttle,
+	Ferry,
+	AerialLift,
+	Funicular,
 	Unknown
 }
 
+export const allVehicleTypes: VehicleType[] = [
+	VehicleType.Tram,
+	VehicleType.Bus,
+	VehicleType.Metro,
+	VehicleType.Rail,
+	VehicleType.Coach,
+	VehicleType.OnDemand,
+	VehicleType.Shuttle,
+	VehicleType.Ferry,
+	VehicleType.AerialLift,
+	VehicleType.Funicular,
+	VehicleType.Unknown,
+];
+
+// GTFS route types, and the extended route types that are not covered by a range
 export const vehicleTypeMapping: { [key: number]: VehicleType } = {
     0: VehicleType.Tram,
+    1: VehicleType.Metro,
+    2: VehicleType.Rail,
     3: VehicleType.Bus,
-    715: VehicleType.Bus,
+    4: VehicleType.Ferry,
+    5: VehicleType.Tram,
+    6: VehicleType.AerialLift,
+    7: VehicleType.Funicular,
+    11: VehicleType.Bus,
+    12: VehicleType.Metro,
+    711: VehicleType.Shuttle,
+    717: VehicleType.OnDemand,
+    1501: VehicleType.OnDemand,
+};
+
+// Ranges of the extended route types, [first, last, type]
+export const vehicleTypeRanges: [number, number, VehicleType][] = [
+	[100, 199, VehicleType.Rail],
+	[200, 299, VehicleType.Coach],
+	[400, 499, VehicleType.Metro],
+	[700, 799, VehicleType.Bus],
+	[900, 999, VehicleType.Tram],
+	[1000, 1099, VehicleType.Ferry],
+	[1200, 1299, VehicleType.Ferry],
+	[1300, 1399, VehicleType.AerialLift],
+	[1400, 1499, VehicleType.Funicular],
+];
+
+// Names of the vehicle types in the filters of the requests
+export const vehicleTypeFilters: { [filter: string]: VehicleType } = {
+	tram: VehicleType.Tram,
+	bus: VehicleType.Bus,
+	metro: VehicleType.Metro,
+	rail: VehicleType.Rail,
+	coach: VehicleType.Coach,
+	ondemand: VehicleType.OnDemand,
+	shuttle: VehicleType.Shuttle,
+	ferry: VehicleType.Ferry,
+	aeriallift: VehicleType.AerialLift,
+	funicular: VehicleType.Funicular,
 };
 
 export function getVehicleType(code: number): VehicleType {
 	if (Object.prototype.hasOwnProperty.call(vehicleTypeMapping, code)) {
 		return vehicleTypeMapping[code];
 	}
+	for (const [first, last, vehicleType] of vehicleTypeRanges) {
+		if (code >= first && code <= last) {
+			return vehicleType;
+		}
+	}
 	return VehicleType.Unknown;
 }
 
+/**
+ * Converts the filters of a request into vehicle types, unknown filters are ignored.
+ *
+ * @param filters - The filters, e.g. ['tram', 'bus', 'rail'].
+ *
+ * @returns The allowed vehicle types.
+ */
+export function getVehicleTypesFromFilters(filters: string[]): VehicleType[] {
+	const allowedVehicleTypes: VehicleType[] = [];
+	for (const filter of filters) {
+		const vehicleType = vehicleTypeFilters[String(filter).toLowerCase()];
+		if (vehicleType !== undefined && !allowedVehicleTypes.includes(vehicleType)) {
+			allowedVehicleTypes.push(vehicleType);
+		}
+	}
+	return allowedVehicleTypes;
+}
+
+/**
+ * Retrieves the logical station corresponding to a given physical station.
+ *
+ * @param physicalStation - The identifier of the physical station to look for.
+ * @param stations - A map of station identifiers to Station objects.
+ * @returns An object containing the key and the Station object if found, otherwise undefined.
+ */
+export function getLogicalStation(physicalStation: number | string, stations: Map<string, Station>): { key: string; station: Station } | undefined {
+	for (const [stationId, station] of stations.entries()) {
+		if (station.physical_stops.hasOwnProperty(physicalStation)) {
+			return { key: stationId, station: station };
+		}
+	}
+	return undefined;
+}
+
 export interface WalkDetail {
 	path: [number, number][];
 	start_time: number;
 	end_time: number;
 	distance: number;
 	duration: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Access or egress by bike-share: walk to the pickup station, ride to the dropoff station and walk to the stop (or the
+ * other way round). The distance is the ride, the duration includes the walks.
+ */
+export interface BikeDetail extends WalkDetail {
+	pickup: string;
+	dropoff: string;
+	walk_distance: number;
+}
+
+/**
+ * Access by car: drive to the park-and-ride lot and walk to the stop. The distance is the drive, the duration includes
+ * parking and the walk.
+ */
+export interface CarDetail extends WalkDetail {
+	parking_id: string;
+	parking: string;
+	walk_distance: number;
+}
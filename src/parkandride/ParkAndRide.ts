@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import haversine from 'haversine-distance';
+import { Time } from '../gtfs/GTFS';
+import { TimeParser } from '../gtfs/TimeParser';
+import { Coords } from '../interfaces';
+
+// Ratio between the road distance and the straight line distance in an urban area
+const drivingDetourFactor: number = 1.3;
+
+/**
+ * Park-and-ride parking lot, linked to the logical stations reached on foot from it. The capacity (number of spaces
+ * available) and the opening hours are only respected when known.
+ */
+export interface ParkAndRide {
+	id: string;
+	nom: string;
+	coords: Coords;
+	stations: string[];
+	capacity?: number;
+	openingHours?: [Time, Time];
+}
+
+/**
+ * Parking lot as written in the park-and-ride file, opening hours are given as "HH:MM:SS" (after 24:00:00 at night)
+ */
+interface RawParkAndRide {
+	id: string;
+	nom: string;
+	lat: number;
+	lon: number;
+	stations: string[];
+	capacity?: number;
+	opening_hours?: { start: string; end: string };
+}
+
+/**
+ * Reads the park-and-ride file. A missing file means there is no park-and-ride.
+ *
+ * @param path - The path of the park-and-ride file.
+ *
+ * @returns The parking lots of the file.
+ */
+export async function loadParkAndRides(path: string): Promise<ParkAndRide[]> {
+	let content: string;
+	try {
+		content = await fs.readFile(path, 'utf-8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
+
+	const timeParser = new TimeParser();
+	const rawParkAndRides: RawParkAndRide[] = JSON.parse(content);
+	return rawParkAndRides.map(raw => {
+		let openingHours: [Time, Time] | undefined;
+		if (raw.opening_hours) {
+			openingHours = [timeParser.getTime(raw.opening_hours.start), timeParser.getTime(raw.opening_hours.end)];
+
+			if (isNaN(openingHours[0]) || isNaN(openingHours[1]) || openingHours[0] >= openingHours[1]) {
+				throw new Error(`Invalid opening hours for park-and-ride ${raw.id}`);
+			}
+		}
+
+		return {
+			id: raw.id,
+			nom: raw.nom,
+			coords: { latitude: raw.lat, longitude: raw.lon },
+			stations: raw.stations,
+			capacity: raw.capacity,
+			openingHours: openingHours,
+		};
+	});
+}
+
+/**
+ * Finds the park-and-ride lots within driving range that have spaces available, closest first.
+ *
+ * @param coords - The coordinates of the origin.
+ * @param parkAndRides - The park-and-ride lots.
+ * @param maxDistance - The maximum driving distance (in meters).
+ *
+ * @returns The park-and-ride lots with their driving distance.
+ */
+export function findParkAndRides(coords: Coords, parkAndRides: ParkAndRide[], maxDistance: number): [ParkAndRide, number][] {
+	const results: [ParkAndRide, number][] = [];
+	for (const parkAndRide of parkAndRides) {
+		if (parkAndRide.capacity === 0) continue;
+
+		const distance = getDrivingDistance(coords, parkAndRide.coords);
+		if (distance <= maxDistance) {
+			results.push([parkAndRide, distance]);
+		}
+	}
+	return results.sort((a, b) => a[1] - b[1]);
+}
+
+/**
+ * Returns true if the car can be parked at the given time (in seconds from midnight).
+ */
+export function isParkAndRideOpen(parkAndRide: ParkAndRide, time: Time): boolean {
+	return !parkAndRide.openingHours || (time >= parkAndRide.openingHours[0] && time <= parkAndRide.openingHours[1]);
+}
+
+/**
+ * Estimates the road distance from the straight line distance, there is no road network to route the car on.
+ */
+function getDrivingDistance(start: Coords, finish: Coords): number {
+	return haversine(start, finish) * drivingDetourFactor;
+}
@@ -0,0 +1,89 @@
+import { writeFile } from 'fs/promises';
+import { loadTimetable } from './gtfs/GTFSLoader';
+import { RaptorAlgorithmFactory } from './raptor/RaptorAlgorithmFactory';
+import { TransferPatternGenerator } from './transfer-pattern/TransferPatternGenerator';
+import { createTransferPatternStorage } from './transfer-pattern/TransferPatternStorage';
+import { saveGraph } from './transfer-pattern/graph/GraphSerializer';
+import { toDot, toGeoJSON } from './transfer-pattern/graph/GraphExport';
+
+/**
+ * Generates the transfer patterns of every stop and stores them in the transfer patterns storage
+ * (a mysql URL or the path of a local file).
+ * The patterns of the previous timetable are removed first.
+ *
+ * With --graph, the patterns are merged into a DAG instead, written to the given JSON file with its
+ * DOT and GeoJSON exports next to it. --origins limits the DAG to some stops.
+ *
+ * Usage: npm run patterns -- [date] [--graph <file.json> [--origins <stop,stop...>]], the date defaults to today.
+ *
+ * @returns {Promise<void>} A promise that resolves when every pattern has been stored.
+ */
+async function generateTransferPatterns(): Promise<void> {
+	const args = process.argv.slice(2);
+	const graphPath = getOption(args, '--graph');
+	const origins = getOption(args, '--origins')?.split(',');
+
+	const database = process.env.TRANSFER_PATTERNS_DATABASE;
+	if (!database && !graphPath) {
+		console.error("TRANSFER_PATTERNS_DATABASE is not set.");
+		process.exitCode = 1;
+		return;
+	}
+
+	const date = args[0] ? new Date(args[0]) : new Date();
+	if (isNaN(date.getTime())) {
+		console.error(`Invalid date: ${args[0]}`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const [{ trips, transfers, interchange, stops: stopsIndex }] = await loadTimetable();
+	const raptor = RaptorAlgorithmFactory.create(trips, transfers, interchange, [], date);
+	const generator = new TransferPatternGenerator(raptor, interchange);
+	const stops = [...new Set(trips.flatMap(trip => trip.stopTimes.map(stopTime => stopTime.stopId)))];
+
+	if (graphPath) {
+		const graph = generator.createGraph(origins || stops, date);
+		const basePath = graphPath.replace(/\.json$/, '');
+
+		await saveGraph(graphPath, graph);
+		await writeFile(`${basePath}.dot`, toDot(graph, stopsIndex));
+		await writeFile(`${basePath}.geojson`, JSON.stringify(toGeoJSON(graph, stopsIndex)));
+
+		console.log(`Transfer pattern graph written to ${graphPath}.`);
+		return;
+	}
+
+	const storage = createTransferPatternStorage(database);
+	try {
+		await storage.initTables();
+		await storage.clearTransferPatterns();
+
+		for (const [i, stop] of stops.entries()) {
+			await storage.storeTransferPatterns(generator.create(stop, date));
+			console.log(`Transfer patterns of ${stop} stored (${i + 1}/${stops.length}).`);
+		}
+	} finally {
+		await storage.close();
+	}
+
+	console.log("Transfer patterns generated successfully.");
+}
+
+/**
+ * Removes an option and its value from the arguments.
+ *
+ * @param args - The command line arguments, without the option afterwards.
+ * @param name - The name of the option, e.g. '--graph'.
+ *
+ * @returns The value of the option, or undefined if it is not given.
+ */
+function getOption(args: string[], name: string): string | undefined {
+	const index = args.indexOf(name);
+	if (index === -1) {
+		return undefined;
+	}
+	return args.splice(index, 2)[1];
+}
+
+generateTransferPatterns();
@@ -1,4 +1,4 @@
-import { RaptorAlgorithm, StopTimes } from "../raptor/RaptorAlgorithm";
+import { RaptorEngine, ScanIndex, StopDistances, StopTimes } from "../raptor/RaptorAlgorithm";
 import { DayOfWeek, StopID, Time } from "../gtfs/GTFS";
 import { ResultsFactory } from "../results/ResultsFactory";
 import { getDateNumber } from "./DateUtil";
@@ -10,26 +10,28 @@ import { Arrivals, ConnectionIndex } from "../raptor/ScanResults";
 /**
  * Implementation of Raptor that searches for journeys between a set of origin and destinations.
  *
- * Only returns results from a single pass of the Raptor algorithm.
+ * Only returns results from a single pass of the Raptor algorithm. The engine is either the standard Raptor algorithm
+ * or its multi-criteria version, as long as the results factory reads the index it returns.
  */
-export class GroupStationArriveByQuery {
+export class GroupStationArriveByQuery<T extends ScanIndex = ConnectionIndex> {
 
   constructor(
-    private readonly raptor: RaptorAlgorithm,
-    private readonly resultsFactory: ResultsFactory,
+    private readonly raptor: RaptorEngine<T>,
+    private readonly resultsFactory: ResultsFactory<T>,
     private readonly maxSearchDays: number = 3,
     private readonly filters: JourneyFilter[] = []
   ) { }
 
   /**
-   * Plan a journey between the origin and destination set of stops to arrive by the given date and time
+   * Plan a journey between the origin and destination set of stops to arrive by the given date and time. The walking
+   * distances from each destination are only used by the multi-criteria engine.
    */
-  public plan(origins: StopID[], destinations: StopID[], date: Date, time: Time): Journey[] {
+  public plan(origins: StopID[], destinations: StopID[], date: Date, time: Time, walkingDistances: StopDistances = {}): Journey[] {
     // set the arrival time for each destination
     const destinationTimes = destinations.reduce(keyValue(destination => [destination, time]), {});
 
     // get results for every origin and flatten into a single array
-    const results = this.getJourneys(destinationTimes, origins, date);
+    const results = this.getJourneys(destinationTimes, origins, date, walkingDistances);
 
     // apply each filter to the results
     return this.filters.reduce((rs, filter) => filter.apply(rs), results);
@@ -39,13 +41,13 @@ export class GroupStationArriveByQuery {
    * Find journeys using the raptor object, if no results are found then decrement the day and keep
    * searching until results have been found or the maximum number of days has been reached
    */
-  private getJourneys(destinations: StopTimes, origins: StopID[], startDate: Date): Journey[] {
-    const connectionIndexes: ConnectionIndex[] = [];
+  private getJourneys(destinations: StopTimes, origins: StopID[], startDate: Date, walkingDistances: StopDistances): Journey[] {
+    const connectionIndexes: T[] = [];
 
     for (let i = 0; i < this.maxSearchDays; i++) {
       const date = getDateNumber(startDate);
       const dayOfWeek = startDate.getDay() as DayOfWeek;
-      const [kConnections, bestArrivals] = this.raptor.scanArriveBy(destinations, date, dayOfWeek);
+      const [kConnections, bestArrivals] = this.raptor.scanArriveBy(destinations, date, dayOfWeek, walkingDistances);
       const results = this.getJourneysFromConnections(kConnections, connectionIndexes, origins);
 
       if (results.length > 0) {
@@ -66,7 +68,7 @@ export class GroupStationArriveByQuery {
    * stop plus 1 day. This prevents invalid arrivals where the arrival time at a stop is less than 0 hours
    * e.g. arriving at 04:00 but departing at 28:30 the previous day.
    */
-  private getFoundStations(kConnections: ConnectionIndex, bestArrivals: Arrivals): StopTimes {
+  private getFoundStations(kConnections: T, bestArrivals: Arrivals): StopTimes {
     const allStops = Object.keys(kConnections);
     const stopsWithAnArrival = allStops.filter(d => Object.keys(kConnections[d]).length > 0);
 
@@ -79,8 +81,8 @@ export class GroupStationArriveByQuery {
    * into individual journeys.
    */
   private getJourneysFromConnections(
-    kConnections: ConnectionIndex,
-    prevConnections: ConnectionIndex[],
+    kConnections: T,
+    prevConnections: T[],
     origins: StopID[]
   ): Journey[] {
 
@@ -96,7 +98,7 @@ export class GroupStationArriveByQuery {
   /**
    * Reducer that takes the current list of journeys and prepends results based on the given kConnections
    */
-  private completeJourneys(results: Journey[], kConnections: ConnectionIndex): Journey[] {
+  private completeJourneys(results: Journey[], kConnections: T): Journey[] {
     // for every results we have so far
     return results.flatMap(journeyB => {
       // find some results to the origin of that result and merge them together
@@ -113,8 +115,15 @@ export class GroupStationArriveByQuery {
     return {
       legs: journeyA.legs.concat(journeyB.legs),
       departureTime: journeyA.departureTime,
-      arrivalTime: journeyB.arrivalTime - 86400
+      arrivalTime: journeyB.arrivalTime - 86400,
+      walkingDistance: this.mergeWalkingDistances(journeyA, journeyB)
     };
   }
 
+  private mergeWalkingDistances(journeyA: Journey, journeyB: Journey): number | undefined {
+    return journeyA.walkingDistance === undefined && journeyB.walkingDistance === undefined
+      ? undefined
+      : (journeyA.walkingDistance || 0) + (journeyB.walkingDistance || 0);
+  }
+
 }
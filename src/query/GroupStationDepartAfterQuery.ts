@@ -1,4 +1,4 @@
-import { RaptorAlgorithm, StopTimes } from "../raptor/RaptorAlgorithm";
+import { RaptorEngine, ScanIndex, StopDistances, StopTimes } from "../raptor/RaptorAlgorithm";
 import { DayOfWeek, StopID, Time } from "../gtfs/GTFS";
 import { ResultsFactory } from "../results/ResultsFactory";
 import { getDateNumber } from "./DateUtil";
@@ -10,26 +10,28 @@ import { Arrivals, ConnectionIndex } from "../raptor/ScanResults";
 /**
  * Implementation of Raptor that searches for journeys between a set of origin and destinations.
  *
- * Only returns results from a single pass of the Raptor algorithm.
+ * Only returns results from a single pass of the Raptor algorithm. The engine is either the standard Raptor algorithm
+ * or its multi-criteria version, as long as the results factory reads the index it returns.
  */
-export class GroupStationDepartAfterQuery {
+export class GroupStationDepartAfterQuery<T extends ScanIndex = ConnectionIndex> {
 
   constructor(
-    private readonly raptor: RaptorAlgorithm,
-    private readonly resultsFactory: ResultsFactory,
+    private readonly raptor: RaptorEngine<T>,
+    private readonly resultsFactory: ResultsFactory<T>,
     private readonly maxSearchDays: number = 3,
     private readonly filters: JourneyFilter[] = []
   ) { }
 
   /**
-   * Plan a journey between the origin and destination set of stops on the given date and time
+   * Plan a journey between the origin and destination set of stops on the given date and time. The walking distances
+   * to reach each origin are only used by the multi-criteria engine.
    */
-  public plan(origins: StopID[], destinations: StopID[], date: Date, time: Time): Journey[] {
+  public plan(origins: StopID[], destinations: StopID[], date: Date, time: Time, walkingDistances: StopDistances = {}): Journey[] {
     // set the departure time for each origin
     const originTimes = origins.reduce(keyValue(origin => [origin, time]), {});
 
     // get results for every destination and flatten into a single array
-    const results = this.getJourneys(originTimes, destinations, date);
+    const results = this.getJourneys(originTimes, destinations, date, walkingDistances);
 
     // apply each filter to the results
     return this.filters.reduce((rs, filter) => filter.apply(rs), results);
@@ -39,13 +41,13 @@ export class GroupStationDepartAfterQuery {
    * Find journeys using the raptor object, if no results are found then increment the day and keep
    * searching until results have been found or the maximum number of days has been reached
    */
-  private getJourneys(origins: StopTimes, destinations: StopID[], startDate: Date): Journey[] {
-    const connectionIndexes: ConnectionIndex[] = [];
+  private getJourneys(origins: StopTimes, destinations: StopID[], startDate: Date, walkingDistances: StopDistances): Journey[] {
+    const connectionIndexes: T[] = [];
 
     for (let i = 0; i < this.maxSearchDays; i++) {
       const date = getDateNumber(startDate);
       const dayOfWeek = startDate.getDay() as DayOfWeek;
-      const [kConnections, bestArrivals] = this.raptor.scan(origins, date, dayOfWeek);
+      const [kConnections, bestArrivals] = this.raptor.scan(origins, date, dayOfWeek, walkingDistances);
       const results = this.getJourneysFromConnections(kConnections, connectionIndexes, destinations);
 
       if (results.length > 0) {
@@ -66,7 +68,7 @@ export class GroupStationDepartAfterQuery {
    * stop minus 1 day. This prevents invalid departures where the arrival time at a stop is greater than 24 hours
    * e.g. arriving at 28:30 but departing at 04:00 the next day.
    */
-  private getFoundStations(kConnections: ConnectionIndex, bestArrivals: Arrivals): StopTimes {
+  private getFoundStations(kConnections: T, bestArrivals: Arrivals): StopTimes {
     const allStops = Object.keys(kConnections);
     const stopsWithAnArrival =  allStops.filter(d => Object.keys(kConnections[d]).length > 0);
 
@@ -79,8 +81,8 @@ export class GroupStationDepartAfterQuery {
    * into individual journeys.
    */
   private getJourneysFromConnections(
-    kConnections: ConnectionIndex,
-    prevConnections: ConnectionIndex[],
+    kConnections: T,
+    prevConnections: T[],
     destinations: StopID[]
   ): Journey[] {
 
@@ -96,7 +98,7 @@ export class GroupStationDepartAfterQuery {
   /**
    * Reducer that takes the current list of journeys and prepends results based on the given kConnections
    */
-  private completeJourneys(results: Journey[], kConnections: ConnectionIndex): Journey[] {
+  private completeJourneys(results: Journey[], kConnections: T): Journey[] {
     // for every results we have so far
     return results.flatMap(journeyB => {
       // find some results to the origin of that result and merge them together
@@ -113,8 +115,15 @@ export class GroupStationDepartAfterQuery {
     return {
       legs: journeyA.legs.concat(journeyB.legs),
       departureTime: journeyA.departureTime,
-      arrivalTime: journeyB.arrivalTime + 86400
+      arrivalTime: journeyB.arrivalTime + 86400,
+      walkingDistance: this.mergeWalkingDistances(journeyA, journeyB)
     };
   }
 
+  private mergeWalkingDistances(journeyA: Journey, journeyB: Journey): number | undefined {
+    return journeyA.walkingDistance === undefined && journeyB.walkingDistance === undefined
+      ? undefined
+      : (journeyA.walkingDistance || 0) + (journeyB.walkingDistance || 0);
+  }
+
 }
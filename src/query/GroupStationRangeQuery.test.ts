@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GroupStationRangeQuery } from "./GroupStationRangeQuery";
+import { RaptorAlgorithmFactory } from "../raptor/RaptorAlgorithmFactory";
+import { JourneyFactory } from "../results/JourneyFactory";
+import { McJourneyFactory } from "../results/McJourneyFactory";
+import { earliestArrival, leastChanges, leastWalking, MultipleCriteriaDepartAfterFilter } from "../results/filter/MultipleCriteriaDepartAfterFilter";
+import { DayOfWeek, StopID, Time, Transfer, Trip } from "../gtfs/GTFS";
+import { Service } from "../gtfs/Service";
+import { TransfersByOrigin } from "../raptor/RaptorAlgorithm";
+import { Journey } from "../results/Journey";
+
+const days: Record<DayOfWeek, boolean> = { 0: true, 1: true, 2: true, 3: true, 4: true, 5: true, 6: true };
+const service = new Service(20250101, 20251231, days, {});
+const date = new Date("2025-03-03T12:00:00");
+
+function createTrip(id: string, stops: [StopID, Time][]): Trip {
+  return {
+    id,
+    routeId: id.split("-")[0],
+    directionId: "0",
+    serviceId: "all",
+    service,
+    headsign: "",
+    blockId: "",
+    wheelchairAccessible: "",
+    inSeatTransfers: {},
+    feedId: "",
+    stopTimes: stops.map(([stopId, time], i) => ({
+      stopId,
+      arrivalTime: time,
+      departureTime: time,
+      tripId: id,
+      stopSequence: i,
+      pickUp: true,
+      dropOff: true,
+      headsign: "",
+    })),
+  };
+}
+
+function createTransfer(origin: StopID, destination: StopID, duration: Time): Transfer {
+  return { origin, destination, duration, distance: duration, startTime: 0, endTime: Number.MAX_SAFE_INTEGER, days, transferType: "2" };
+}
+
+function createQueries(trips: Trip[], transfers: TransfersByOrigin = {}) {
+  const interchange = {};
+
+  return [
+    new GroupStationRangeQuery(
+      RaptorAlgorithmFactory.create(trips, transfers, interchange),
+      new JourneyFactory(),
+      [new MultipleCriteriaDepartAfterFilter([earliestArrival, leastChanges])]
+    ),
+    new GroupStationRangeQuery(
+      RaptorAlgorithmFactory.createMultiCriteria(trips, transfers, interchange),
+      new McJourneyFactory(),
+      [new MultipleCriteriaDepartAfterFilter([earliestArrival, leastChanges, leastWalking])]
+    ),
+  ];
+}
+
+const time = (hours: number, minutes: number): Time => hours * 3600 + minutes * 60;
+const toTimes = (journeys: Journey[]) => journeys.map(journey => [journey.departureTime, journey.arrivalTime]);
+
+test("returns the journeys of the window that no later departure beats", () => {
+  const trips = [
+    ...[0, 10, 20, 30, 40, 50].map(minutes => createTrip(`slow-${minutes}`, [
+      ["A", time(8, minutes)], ["B", time(8, minutes + 10)], ["C", time(8, minutes + 20)]
+    ])),
+    createTrip("express-25", [["A", time(8, 25)], ["C", time(8, 35)]]),
+  ];
+
+  for (const query of createQueries(trips)) {
+    const journeys = query.plan(["A"], ["C"], date, time(8, 0), time(8, 30));
+
+    // the 8:20 departure arrives after the 8:25 express, the departures after 8:30 are out of the window
+    assert.deepEqual(toTimes(journeys), [
+      [time(8, 0), time(8, 20)],
+      [time(8, 10), time(8, 30)],
+      [time(8, 25), time(8, 35)],
+      [time(8, 30), time(8, 50)],
+    ]);
+  }
+});
+
+test("keeps a later arrival with fewer changes", () => {
+  const trips = [
+    createTrip("direct-0", [["A", time(8, 0)], ["C", time(8, 40)]]),
+    createTrip("first-0", [["A", time(8, 0)], ["B", time(8, 10)]]),
+    createTrip("second-15", [["B", time(8, 15)], ["C", time(8, 25)]]),
+  ];
+
+  for (const query of createQueries(trips)) {
+    const journeys = query.plan(["A"], ["C"], date, time(7, 30), time(8, 30));
+
+    assert.deepEqual(
+      journeys.map(journey => journey.legs.map(leg => "trip" in leg ? leg.trip.id : "walk")),
+      [["direct-0"], ["first-0", "second-15"]]
+    );
+  }
+});
+
+test("finds the departures of the stops reached on foot", () => {
+  const trips = [
+    createTrip("bus-10", [["Z", time(8, 10)], ["W", time(8, 20)]]),
+    createTrip("bus-40", [["Z", time(8, 40)], ["W", time(8, 50)]]),
+    // the transfers are only followed from the stops served by a route
+    createTrip("early-0", [["A", time(6, 0)], ["Y", time(6, 10)]]),
+  ];
+  const transfers = {
+    A: [createTransfer("A", "Y", 120)],
+    Y: [createTransfer("Y", "Z", 120)],
+  };
+
+  for (const query of createQueries(trips, transfers)) {
+    const journeys = query.plan(["A"], ["W"], date, time(8, 0), time(8, 30));
+
+    // the 8:40 bus is reached by leaving after 8:30
+    assert.deepEqual(
+      journeys.map(journey => journey.legs.map(leg => "trip" in leg ? leg.trip.id : "walk")),
+      [["walk", "walk", "bus-10"]]
+    );
+  }
+});
@@ -0,0 +1,45 @@
+import { RaptorEngine, ScanIndex, StopDistances } from "../raptor/RaptorAlgorithm";
+import { DayOfWeek, StopID, Time } from "../gtfs/GTFS";
+import { ResultsFactory } from "../results/ResultsFactory";
+import { getDateNumber } from "./DateUtil";
+import { Journey } from "../results/Journey";
+import { JourneyFilter } from "../results/filter/JourneyFilter";
+import { ConnectionIndex } from "../raptor/ScanResults";
+
+/**
+ * Implementation of Raptor that searches for every journey between a set of origin and destinations departing
+ * within a time window (range query).
+ *
+ * Uses rRAPTOR: a scan is performed for each departure from the origins in the window, from the latest to the earliest,
+ * and each scan reuses the arrivals of the later ones, so it only returns the journeys that arrive earlier (or with
+ * fewer changes) than those departing later. The filters are expected to remove the remaining dominated journeys.
+ */
+export class GroupStationRangeQuery<T extends ScanIndex = ConnectionIndex> {
+
+  constructor(
+    private readonly raptor: RaptorEngine<T>,
+    private readonly resultsFactory: ResultsFactory<T>,
+    private readonly filters: JourneyFilter[] = []
+  ) { }
+
+  /**
+   * Plan every journey between the origin and destination set of stops departing between the start and end time
+   */
+  public plan(
+    origins: StopID[],
+    destinations: StopID[],
+    date: Date,
+    startTime: Time,
+    endTime: Time,
+    walkingDistances: StopDistances = {}
+  ): Journey[] {
+    const results = this.raptor
+      .scanRange(origins, startTime, endTime, getDateNumber(date), date.getDay() as DayOfWeek, walkingDistances)
+      .flatMap(index => destinations.flatMap(d => this.resultsFactory.getResults(index, d)))
+      .filter(journey => journey.departureTime <= endTime);
+
+    // apply each filter to the results
+    return this.filters.reduce((rs, filter) => filter.apply(rs), results);
+  }
+
+}
@@ -0,0 +1,31 @@
+import { RaptorEngine, ScanIndex, StopTimes } from "../raptor/RaptorAlgorithm";
+import { DayOfWeek, Time } from "../gtfs/GTFS";
+import { getDateNumber } from "./DateUtil";
+import { Arrivals, ConnectionIndex } from "../raptor/ScanResults";
+
+/**
+ * Implementation of Raptor that returns every stop reachable from a set of origins before a given time (isochrone).
+ */
+export class IsochroneQuery<T extends ScanIndex = ConnectionIndex> {
+
+  constructor(
+    private readonly raptor: RaptorEngine<T>
+  ) { }
+
+  /**
+   * Return the earliest arrival time at every stop reached before the end time, origins included
+   */
+  public plan(origins: StopTimes, date: Date, endTime: Time): Arrivals {
+    const [, bestArrivals] = this.raptor.scan(origins, getDateNumber(date), date.getDay() as DayOfWeek);
+    const results: Arrivals = {};
+
+    for (const [stop, time] of Object.entries(bestArrivals)) {
+      if (time <= endTime) {
+        results[stop] = time;
+      }
+    }
+
+    return results;
+  }
+
+}
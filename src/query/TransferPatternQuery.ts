@@ -0,0 +1,193 @@
+import { getTransferInterchange, getTripSlack, Interchange, ScanIndex, StopDistances, TransfersByOrigin } from "../raptor/RaptorAlgorithm";
+import { DayOfWeek, StopID, Time, Trip } from "../gtfs/GTFS";
+import { getDepartureTime, getArrivalTime } from "../results/ResultsFactory";
+import { getDateNumber } from "./DateUtil";
+import { AnyLeg, Journey } from "../results/Journey";
+import { JourneyFilter } from "../results/filter/JourneyFilter";
+import { GroupStationDepartAfterQuery } from "./GroupStationDepartAfterQuery";
+import { TransferPatternStorage } from "../transfer-pattern/TransferPatternStorage";
+import { getJourneyKey, TransferPatternIndex } from "../transfer-pattern/results/StringResults";
+
+/**
+ * Searches for journeys between a set of origin and destinations using the transfer patterns generated beforehand.
+ *
+ * Each pattern is evaluated against the timetable: every hop between two change points takes the earliest arrival, by
+ * trip or by transfer. Only the stored patterns are evaluated, which is much faster than a full Raptor scan. The query
+ * falls back to the Raptor algorithm when no pattern is stored for the journey or when none of them can be followed.
+ */
+export class TransferPatternQuery {
+  private readonly tripsByStop: Record<StopID, [Trip, number][]> = {};
+  private readonly connections: Map<string, [Trip, number, number][]> = new Map();
+
+  constructor(
+    private readonly storage: TransferPatternStorage,
+    trips: Trip[],
+    private readonly transfers: TransfersByOrigin,
+    private readonly interchange: Interchange,
+    private readonly fallback: GroupStationDepartAfterQuery<ScanIndex>,
+    private readonly filters: JourneyFilter[] = []
+  ) {
+    for (const trip of trips) {
+      for (let i = 0; i < trip.stopTimes.length - 1; i++) {
+        if (trip.stopTimes[i].pickUp) {
+          const stop = trip.stopTimes[i].stopId;
+
+          this.tripsByStop[stop] = this.tripsByStop[stop] || [];
+          this.tripsByStop[stop].push([trip, i]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Plan a journey between the origin and destination set of stops on the given date and time. The walking distances
+   * are only given to the fallback query.
+   */
+  public async plan(
+    origins: StopID[],
+    destinations: StopID[],
+    date: Date,
+    time: Time,
+    walkingDistances: StopDistances = {}
+  ): Promise<Journey[]> {
+    let patterns: TransferPatternIndex;
+
+    try {
+      const journeyKeys = origins.flatMap(origin => destinations.map(destination => getJourneyKey(origin, destination)));
+
+      patterns = await this.storage.getTransferPatterns(journeyKeys);
+    }
+    catch (err) {
+      console.error(err);
+
+      return this.fallback.plan(origins, destinations, date, time, walkingDistances);
+    }
+
+    const dateNumber = getDateNumber(date);
+    const dayOfWeek = date.getDay() as DayOfWeek;
+    const results: Journey[] = [];
+
+    for (const origin of origins) {
+      for (const destination of destinations) {
+        for (const pattern of patterns[getJourneyKey(origin, destination)] || []) {
+          // the patterns are stored from the lowest stop ID
+          const changes = pattern === "" ? [] : pattern.split(",");
+          const path = [origin, ...(origin > destination ? changes.reverse() : changes), destination];
+          const journey = this.getJourney(path, dateNumber, dayOfWeek, time);
+
+          if (journey) {
+            results.push(journey);
+          }
+        }
+      }
+    }
+
+    if (results.length === 0) {
+      return this.fallback.plan(origins, destinations, date, time, walkingDistances);
+    }
+
+    return this.filters.reduce((rs, filter) => filter.apply(rs), results);
+  }
+
+  /**
+   * Follow the path from its first stop at the given time, returns null if one of the hops cannot be made that day
+   */
+  private getJourney(path: StopID[], date: number, dow: DayOfWeek, time: Time): Journey | null {
+    const legs: AnyLeg[] = [];
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const hop = this.getEarliestLeg(path[i], path[i + 1], date, dow, time);
+
+      if (!hop) {
+        return null;
+      }
+
+      legs.push(hop[0]);
+      time = hop[1];
+    }
+
+    return { legs, departureTime: getDepartureTime(legs), arrivalTime: getArrivalTime(legs) };
+  }
+
+  /**
+   * Return the leg arriving first at the destination, and the time from which the next leg can depart
+   */
+  private getEarliestLeg(origin: StopID, destination: StopID, date: number, dow: DayOfWeek, time: Time): [AnyLeg, Time] | null {
+    const interchange = this.interchange[destination] || 0;
+    let best: [AnyLeg, Time] | null = null;
+
+    for (const transfer of this.transfers[origin] || []) {
+      const arrival = time + transfer.duration + (getTransferInterchange(transfer, this.interchange) || 0);
+
+      if (transfer.destination === destination && transfer.days[dow] && transfer.startTime <= arrival && transfer.endTime >= arrival) {
+        best = [transfer, arrival];
+      }
+    }
+
+    const connections = this.getConnections(origin, destination);
+
+    for (let i = this.findFirstConnection(connections, time); i < connections.length; i++) {
+      const [trip, start, end] = connections[i];
+
+      // the trips are sorted by departure time, the next ones cannot arrive earlier
+      if (best && trip.stopTimes[start].departureTime >= best[1]) {
+        break;
+      }
+
+      const arrival = trip.stopTimes[end].arrivalTime + interchange + getTripSlack(trip);
+
+      if (trip.service.runsOn(date, dow) && (!best || arrival < best[1])) {
+        best = [{ origin, destination, stopTimes: trip.stopTimes.slice(start, end + 1), trip }, arrival];
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Return the trips going from the origin to the destination, sorted by departure time. The index is built on demand
+   * as only the hops of the stored patterns are ever needed.
+   */
+  private getConnections(origin: StopID, destination: StopID): [Trip, number, number][] {
+    const key = origin + "," + destination;
+
+    if (!this.connections.has(key)) {
+      const connections: [Trip, number, number][] = [];
+
+      for (const [trip, start] of this.tripsByStop[origin] || []) {
+        const end = trip.stopTimes.findIndex((stopTime, i) => i > start && stopTime.stopId === destination && stopTime.dropOff);
+
+        if (end !== -1) {
+          connections.push([trip, start, end]);
+        }
+      }
+
+      connections.sort((a, b) => a[0].stopTimes[a[1]].departureTime - b[0].stopTimes[b[1]].departureTime);
+      this.connections.set(key, connections);
+    }
+
+    return this.connections.get(key);
+  }
+
+  /**
+   * Binary search of the first connection departing at or after the given time
+   */
+  private findFirstConnection(connections: [Trip, number, number][], time: Time): number {
+    let low = 0;
+    let high = connections.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+
+      if (connections[mid][0].stopTimes[connections[mid][1]].departureTime < time) {
+        low = mid + 1;
+      }
+      else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
+}
@@ -0,0 +1,64 @@
+import { DateNumber, DayOfWeek, StopID, Time } from "../gtfs/GTFS";
+import { RaptorEngine, ScanIndex, StopDistances, StopTimes } from "./RaptorAlgorithm";
+import { Arrivals } from "./ScanResults";
+
+/**
+ * Raptor engine that delegates each scan to an instance built for the date of the scan, with only the trips running
+ * on that date. The instances are built on the first scan of their date and kept for the next ones, the least
+ * recently used ones are evicted so that only the dates being queried are kept in memory.
+ *
+ * The multi-day searches of the queries scan each day with its own date, so they use the instance of each day.
+ *
+ * When only the trips of some dates change (e.g. new realtime updates), the engine built for the new trips can keep the
+ * instances of the other dates.
+ */
+export class DailyRaptorAlgorithm<T extends ScanIndex> implements RaptorEngine<T> {
+  private readonly instances = new Map<string, RaptorEngine<T>>();
+
+  constructor(
+    private readonly createInstance: (date: number, dow: DayOfWeek) => RaptorEngine<T>,
+    private readonly maxInstances: number = 7
+  ) { }
+
+  public scan(origins: StopTimes, date: number, dow: DayOfWeek, walkingDistances?: StopDistances): [T, Arrivals] {
+    return this.getInstance(date, dow).scan(origins, date, dow, walkingDistances);
+  }
+
+  public scanArriveBy(destinations: StopTimes, date: number, dow: DayOfWeek, walkingDistances?: StopDistances): [T, Arrivals] {
+    return this.getInstance(date, dow).scanArriveBy(destinations, date, dow, walkingDistances);
+  }
+
+  public scanRange(origins: StopID[], startTime: Time, endTime: Time, date: number, dow: DayOfWeek, walkingDistances?: StopDistances): T[] {
+    return this.getInstance(date, dow).scanRange(origins, startTime, endTime, date, dow, walkingDistances);
+  }
+
+  /**
+   * Keep the instances of a previous engine, except those of the given dates whose trips changed
+   */
+  public keepInstances(previous: DailyRaptorAlgorithm<ScanIndex>, changedDates: Set<DateNumber>): void {
+    for (const [key, instance] of previous.instances) {
+      if (!changedDates.has(parseInt(key, 10)) && !this.instances.has(key)) {
+        this.instances.set(key, instance as RaptorEngine<T>);
+      }
+    }
+  }
+
+  /**
+   * Return the instance of the given date, built if it is not cached, and mark it as the most recently used
+   */
+  private getInstance(date: number, dow: DayOfWeek): RaptorEngine<T> {
+    const key = `${date}-${dow}`;
+    const instance = this.instances.get(key) ?? this.createInstance(date, dow);
+
+    // the Map keeps the insertion order, the first key is the least recently used
+    this.instances.delete(key);
+    this.instances.set(key, instance);
+
+    if (this.instances.size > this.maxInstances) {
+      this.instances.delete(this.instances.keys().next().value!);
+    }
+
+    return instance;
+  }
+
+}
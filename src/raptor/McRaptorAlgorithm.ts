@@ -0,0 +1,233 @@
+import { DayOfWeek, StopID, Time, Trip } from "../gtfs/GTFS";
+import { QueueFactory } from "./QueueFactory";
+import { RouteScanner, RouteScannerFactory } from "./RouteScanner";
+import { Arrivals } from "./ScanResults";
+import { getRangeDepartureTimes, getTransferInterchange, getTripSlack, Interchange, RaptorEngine, RouteStopIndex, RoutePaths, StopDistances, StopTimes, TransfersByOrigin } from "./RaptorAlgorithm";
+import { BagIndex, Label, McScanResults } from "./McScanResults";
+import { McScanResultsFactory } from "./McScanResultsFactory";
+import { keyValue } from "../utils/TSUtils";
+
+/**
+ * Implementation of the multi-criteria Raptor algorithm (McRAPTOR). Labels carry the arrival time, the walking
+ * distance and the number of changes so journeys that are slower but walk less are kept during the scan.
+ *
+ * The walking distance of a transfer is the length of its footpath, a change within a station adds none.
+ */
+export class McRaptorAlgorithm implements RaptorEngine<BagIndex> {
+
+  constructor(
+    private readonly routeStopIndex: RouteStopIndex,
+    private readonly routePath: RoutePaths,
+    private readonly transfers: TransfersByOrigin,
+    private readonly interchange: Interchange,
+    private readonly scanResultsFactory: McScanResultsFactory,
+    private readonly queueFactory: QueueFactory,
+    private readonly routeScannerFactory: RouteScannerFactory
+  ) { }
+
+  /**
+   * Perform a plan of the routes at a given time and return the resulting bags. The walking distances are the
+   * access distances to each origin.
+   */
+  public scan(origins: StopTimes, date: number, dow: DayOfWeek, walkingDistances: StopDistances = {}): [BagIndex, Arrivals] {
+    const results = this.scanResultsFactory.create(origins, walkingDistances);
+
+    this.scanRounds(results, this.routeScannerFactory.create(date, dow), Object.keys(origins), dow);
+
+    return results.finalize();
+  }
+
+  /**
+   * Perform a scan for each departure from the origins within the time window, from the latest to the earliest. The
+   * labels found by the later departures are kept, so each scan only adds the labels they do not dominate (rRAPTOR)
+   * and only returns those labels.
+   */
+  public scanRange(
+    origins: StopID[],
+    startTime: Time,
+    endTime: Time,
+    date: number,
+    dow: DayOfWeek,
+    walkingDistances: StopDistances = {}
+  ): BagIndex[] {
+    const departureTimes = getRangeDepartureTimes(
+      origins, startTime, endTime, this.routeStopIndex, this.transfers, this.interchange, this.queueFactory, this.routeScannerFactory.create(date, dow)
+    );
+    const results = this.scanResultsFactory.create({}, walkingDistances);
+
+    return departureTimes.map(time => {
+      results.restart(origins.reduce(keyValue(origin => [origin, time]), {}), walkingDistances);
+      this.scanRounds(results, this.routeScannerFactory.create(date, dow), origins, dow);
+
+      return results.finalize()[0];
+    });
+  }
+
+  /**
+   * Perform a reverse scan of the routes for a given arrival time. The walking distances are the egress distances
+   * from each destination.
+   */
+  public scanArriveBy(destinations: StopTimes, date: number, dow: DayOfWeek, walkingDistances: StopDistances = {}): [BagIndex, Arrivals] {
+    const routeScanner = this.routeScannerFactory.create(date, dow);
+    const results = this.scanResultsFactory.create(destinations, walkingDistances, true);
+    let markedStops = Object.keys(destinations);
+
+    while (markedStops.length > 0) {
+      results.addRound();
+
+      this.scanRoutesReverse(results, routeScanner, markedStops);
+      this.scanTransfersReverse(results, markedStops, dow);
+
+      markedStops = results.getMarkedStops();
+    }
+
+    return results.finalize();
+  }
+
+  private scanRounds(results: McScanResults, routeScanner: RouteScanner, markedStops: StopID[], dow: DayOfWeek): void {
+    while (markedStops.length > 0) {
+      results.addRound();
+
+      this.scanRoutes(results, routeScanner, markedStops);
+      this.scanTransfers(results, markedStops, dow);
+
+      markedStops = results.getMarkedStops();
+    }
+  }
+
+  private scanRoutes(results: McScanResults, routeScanner: RouteScanner, markedStops: StopID[]): void {
+    const queue = this.queueFactory.getQueue(markedStops);
+
+    for (const [routeId, stopP] of Object.entries(queue)) {
+      let routeBag: RouteLabel[] = [];
+
+      for (let pi = this.routeStopIndex[routeId][stopP]; pi < this.routePath[routeId].length; pi++) {
+        const stopPi = this.routePath[routeId][pi];
+        const i = this.interchange[stopPi];
+
+        for (const { trip, boardingPoint, label } of routeBag) {
+          if (trip.stopTimes[pi].dropOff) {
+            results.addLabel(stopPi, {
+              time: trip.stopTimes[pi].arrivalTime + i + getTripSlack(trip),
+              walkingDistance: label.walkingDistance,
+              round: results.round,
+              connection: [trip, boardingPoint, pi],
+              previous: label
+            });
+          }
+        }
+
+        for (const label of results.getBag(stopPi)) {
+          const trip = routeScanner.getEarliestTrip(routeId, pi, label.time);
+
+          if (trip && trip.stopTimes[pi].pickUp) {
+            routeBag = this.mergeRouteLabel(routeBag, { trip, boardingPoint: pi, label }, pi, false);
+          }
+        }
+      }
+    }
+  }
+
+  private scanRoutesReverse(results: McScanResults, routeScanner: RouteScanner, markedStops: StopID[]): void {
+    const queue = this.queueFactory.getQueue(markedStops);
+
+    for (const [routeId, stopP] of Object.entries(queue)) {
+      let routeBag: RouteLabel[] = [];
+
+      for (let pi = this.routeStopIndex[routeId][stopP]; pi >= 0; pi--) {
+        const stopPi = this.routePath[routeId][pi];
+        const i = this.interchange[stopPi];
+
+        for (const { trip, boardingPoint, label } of routeBag) {
+          if (trip.stopTimes[pi].pickUp) {
+            results.addLabel(stopPi, {
+              time: trip.stopTimes[pi].departureTime - i - getTripSlack(trip),
+              walkingDistance: label.walkingDistance,
+              round: results.round,
+              connection: [trip, boardingPoint, pi],
+              previous: label
+            });
+          }
+        }
+
+        for (const label of results.getBag(stopPi)) {
+          const trip = routeScanner.getLatestTrip(routeId, pi, label.time);
+
+          if (trip && trip.stopTimes[pi].dropOff) {
+            routeBag = this.mergeRouteLabel(routeBag, { trip, boardingPoint: pi, label }, pi, true);
+          }
+        }
+      }
+    }
+  }
+
+  private scanTransfers(results: McScanResults, markedStops: StopID[], dow: DayOfWeek): void {
+    for (const stopP of markedStops) {
+      for (const label of results.getBag(stopP)) {
+        for (const transfer of this.transfers[stopP] || []) {
+          const stopPi = transfer.destination;
+          const arrival = label.time + transfer.duration + getTransferInterchange(transfer, this.interchange);
+
+          if (transfer.days[dow] && transfer.startTime <= arrival && transfer.endTime >= arrival) {
+            results.addLabel(stopPi, {
+              time: arrival,
+              walkingDistance: label.walkingDistance + transfer.distance,
+              round: results.round,
+              connection: transfer,
+              previous: label
+            });
+          }
+        }
+      }
+    }
+  }
+
+  private scanTransfersReverse(results: McScanResults, markedStops: StopID[], dow: DayOfWeek): void {
+    for (const stopP of markedStops) {
+      for (const label of results.getBag(stopP)) {
+        for (const transfer of this.transfers[stopP] || []) {
+          const stopPi = transfer.destination;
+          const arrival = label.time - transfer.duration - getTransferInterchange(transfer, this.interchange);
+
+          if (transfer.days[dow] && transfer.startTime <= arrival && transfer.endTime >= arrival) {
+            results.addLabel(stopPi, {
+              time: arrival,
+              walkingDistance: label.walkingDistance + transfer.distance,
+              round: results.round,
+              connection: transfer,
+              previous: label
+            });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Add the candidate to the route bag unless a label riding an earlier (or later in reverse) trip with less walking
+   * is already in it.
+   */
+  private mergeRouteLabel(routeBag: RouteLabel[], candidate: RouteLabel, pi: number, reverse: boolean): RouteLabel[] {
+    const dominates = (a: RouteLabel, b: RouteLabel) => {
+      const timeA = a.trip.stopTimes[pi].departureTime;
+      const timeB = b.trip.stopTimes[pi].departureTime;
+
+      return (reverse ? timeA >= timeB : timeA <= timeB) && a.label.walkingDistance <= b.label.walkingDistance;
+    };
+
+    if (routeBag.some(r => dominates(r, candidate))) {
+      return routeBag;
+    }
+
+    return [...routeBag.filter(r => !dominates(candidate, r)), candidate];
+  }
+}
+
+/**
+ * Label of a trip being ridden along a route
+ */
+interface RouteLabel {
+  trip: Trip;
+  boardingPoint: number;
+  label: Label;
+}
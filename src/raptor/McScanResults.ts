@@ -0,0 +1,125 @@
+import { StopID, Time, Transfer } from "../gtfs/GTFS";
+import { Arrivals, Connection } from "./ScanResults";
+import { StopDistances, StopTimes } from "./RaptorAlgorithm";
+
+/**
+ * Results of a multi-criteria scan. Each stop has a bag of labels that are not dominated on arrival time and walking
+ * distance. The number of changes is the round of the label, so a label is only compared with the labels of the same
+ * or earlier rounds.
+ */
+export class McScanResults {
+  private k = 0;
+  private restartLabels?: Set<Label>;
+
+  constructor(
+    private readonly bestArrivals: Arrivals,
+    private kBags: BagsByNumChanges,
+    private readonly bestBags: BagIndex,
+    private readonly reverse: boolean = false
+  ) {}
+
+  /**
+   * Start a new scan of a range scan from origins departing before those of the previous scan. The labels found by
+   * the later departures are kept, so only the labels they do not dominate are added, and the bags returned are those
+   * of the labels found by the new scan only (rRAPTOR).
+   */
+  public restart(origins: StopTimes, walkingDistances: StopDistances = {}): void {
+    this.k = 0;
+    this.kBags = { 0: {} };
+    this.restartLabels = new Set();
+
+    for (const stop in origins) {
+      const label = { time: origins[stop], walkingDistance: walkingDistances[stop] || 0, round: 0 };
+
+      this.bestArrivals[stop] = origins[stop];
+      this.bestBags[stop] = [...(this.bestBags[stop] || []).filter(l => !this.dominates(label, l)), label];
+      this.kBags[0][stop] = [label];
+    }
+  }
+
+  public addRound(): void {
+    this.kBags[++this.k] = {};
+  }
+
+  public get round(): number {
+    return this.k;
+  }
+
+  /**
+   * Return the labels of the given stop found in the previous round
+   */
+  public getBag(stopPi: StopID): Bag {
+    return this.kBags[this.k - 1][stopPi] || [];
+  }
+
+  /**
+   * Add the label to the stop if it is not dominated by any label found so far with as many changes or less, and
+   * remove the labels with as many changes or more it dominates. The number of changes is a criterion, a label with
+   * more changes never dominates one with fewer, even when it was found before it.
+   */
+  public addLabel(stopPi: StopID, label: Label): void {
+    const bestBag = this.bestBags[stopPi];
+
+    if (bestBag.some(l => l.round <= label.round && this.dominates(l, label))) {
+      return;
+    }
+
+    const isRemaining = (l: Label) => l.round < label.round || !this.dominates(label, l);
+
+    this.bestBags[stopPi] = bestBag.filter(isRemaining);
+    this.bestBags[stopPi].push(label);
+    this.kBags[this.k][stopPi] = (this.kBags[this.k][stopPi] || []).filter(isRemaining);
+    this.kBags[this.k][stopPi].push(label);
+
+    if (this.isBetter(label.time, this.bestArrivals[stopPi])) {
+      this.bestArrivals[stopPi] = label.time;
+    }
+    this.restartLabels?.add(label);
+  }
+
+  public getMarkedStops(): StopID[] {
+    return Object.keys(this.kBags[this.k]);
+  }
+
+  public finalize(): [BagIndex, Arrivals] {
+    if (!this.restartLabels) {
+      return [this.bestBags, this.bestArrivals];
+    }
+
+    const bags = {};
+    for (const stop in this.bestBags) {
+      bags[stop] = this.bestBags[stop].filter(label => this.restartLabels!.has(label));
+    }
+
+    return [bags, this.bestArrivals];
+  }
+
+  /**
+   * Returns true if label a is as good as label b on every criteria
+   */
+  public dominates(a: Label, b: Label): boolean {
+    return (a.time === b.time || this.isBetter(a.time, b.time)) && a.walkingDistance <= b.walkingDistance;
+  }
+
+  /**
+   * Returns true if time a is strictly better than time b (earlier, or later for a reverse scan)
+   */
+  public isBetter(a: Time, b: Time): boolean {
+    return this.reverse ? a > b : a < b;
+  }
+}
+
+/**
+ * Multi-criteria label. The time is the arrival time at the stop, or the departure time for a reverse scan.
+ */
+export interface Label {
+  time: Time;
+  walkingDistance: number;
+  round: number;
+  connection?: Connection | Transfer;
+  previous?: Label;
+}
+
+export type Bag = Label[];
+export type BagIndex = Record<StopID, Bag>;
+export type BagsByNumChanges = Record<number, BagIndex>;
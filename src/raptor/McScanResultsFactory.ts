@@ -0,0 +1,31 @@
+import { StopID } from "../gtfs/GTFS";
+import { StopDistances, StopTimes } from "./RaptorAlgorithm";
+import { McScanResults } from "./McScanResults";
+
+export class McScanResultsFactory {
+
+  constructor(
+    private readonly stops: StopID[]
+  ) {}
+
+  public create(origins: StopTimes, walkingDistances: StopDistances = {}, reverse: boolean = false): McScanResults {
+    const bestArrivals = {};
+    const kBags = [{}];
+    const bestBags = {};
+
+    for (const stop of this.stops) {
+      bestArrivals[stop] = reverse ? Number.MIN_SAFE_INTEGER : Number.MAX_SAFE_INTEGER;
+      bestBags[stop] = [];
+    }
+
+    for (const stop in origins) {
+      const label = { time: origins[stop], walkingDistance: walkingDistances[stop] || 0, round: 0 };
+
+      bestArrivals[stop] = origins[stop];
+      bestBags[stop] = [label];
+      kBags[0][stop] = [label];
+    }
+
+    return new McScanResults(bestArrivals, kBags, bestBags, reverse);
+  }
+}
@@ -27,6 +27,13 @@ export class QueueFactory {
     return queue;
   }
 
+  /**
+   * Return the routes that can be boarded at the stop
+   */
+  public getRoutes(stop: StopID): RouteID[] {
+    return this.routesAtStop[stop] || [];
+  }
+
   private isStopBefore(routeId: RouteID, stopA: StopID, stopB: StopID): boolean {
     return this.routeStopIndex[routeId][stopA] < this.routeStopIndex[routeId][stopB];
   }
@@ -3,11 +3,25 @@ import { QueueFactory } from "../raptor/QueueFactory";
 import { RouteID, RouteScanner, RouteScannerFactory } from "./RouteScanner";
 import { Arrivals, ConnectionIndex, ScanResults } from "./ScanResults";
 import { ScanResultsFactory } from "./ScanResultsFactory";
+import { keyValue } from "../utils/TSUtils";
+
+/**
+ * Journey planning engine used by the query classes. T is the index of results returned by a scan.
+ */
+export interface RaptorEngine<T extends ScanIndex> {
+
+  scan(origins: StopTimes, date: number, dow: DayOfWeek, walkingDistances?: StopDistances): [T, Arrivals];
+
+  scanArriveBy(destinations: StopTimes, date: number, dow: DayOfWeek, walkingDistances?: StopDistances): [T, Arrivals];
+
+  scanRange(origins: StopID[], startTime: Time, endTime: Time, date: number, dow: DayOfWeek, walkingDistances?: StopDistances): T[];
+
+}
 
 /**
  * Implementation of the Raptor journey planning algorithm
  */
-export class RaptorAlgorithm {
+export class RaptorAlgorithm implements RaptorEngine<ConnectionIndex> {
 
   constructor(
     private readonly routeStopIndex: RouteStopIndex,
@@ -23,22 +37,32 @@ export class RaptorAlgorithm {
    * Perform a plan of the routes at a given time and return the resulting kConnections index
    */
   public scan(origins: StopTimes, date: number, dow: DayOfWeek): [ConnectionIndex, Arrivals] {
-    const routeScanner = this.routeScannerFactory.create(date, dow);
     const results = this.scanResultsFactory.create(origins);
-    let markedStops = Object.keys(origins);
 
-    while (markedStops.length > 0) {
-      results.addRound();
-
-      this.scanRoutes(results, routeScanner, markedStops);
-      this.scanTransfers(results, markedStops);
-
-      markedStops = results.getMarkedStops();
-    }
+    this.scanRounds(results, this.routeScannerFactory.create(date, dow), Object.keys(origins), dow);
 
     return results.finalize();
   }
 
+  /**
+   * Perform a scan for each departure from the origins within the time window, from the latest to the earliest. The
+   * arrivals found by the later departures are kept, so each scan only follows the stops it reaches earlier (rRAPTOR)
+   * and only returns the connections that are better than those of the later departures.
+   */
+  public scanRange(origins: StopID[], startTime: Time, endTime: Time, date: number, dow: DayOfWeek): ConnectionIndex[] {
+    const departureTimes = getRangeDepartureTimes(
+      origins, startTime, endTime, this.routeStopIndex, this.transfers, this.interchange, this.queueFactory, this.routeScannerFactory.create(date, dow)
+    );
+    const results = this.scanResultsFactory.create({});
+
+    return departureTimes.map(time => {
+      results.restart(origins.reduce(keyValue(origin => [origin, time]), {}));
+      this.scanRounds(results, this.routeScannerFactory.create(date, dow), origins, dow);
+
+      return results.finalize()[0];
+    });
+  }
+
   /**
    * Perform a reverse scan of the routes for a given arrival time
    */
@@ -51,7 +75,7 @@ export class RaptorAlgorithm {
       results.addRound();
 
       this.scanRoutesReverse(results, routeScanner, markedStops);
-      this.scanTransfersReverse(results, markedStops);
+      this.scanTransfersReverse(results, markedStops, dow);
 
       markedStops = results.getMarkedStops();
     }
@@ -59,6 +83,17 @@ export class RaptorAlgorithm {
     return results.finalize();
   }
 
+  private scanRounds(results: ScanResults, routeScanner: RouteScanner, markedStops: StopID[], dow: DayOfWeek): void {
+    while (markedStops.length > 0) {
+      results.addRound();
+
+      this.scanRoutes(results, routeScanner, markedStops);
+      this.scanTransfers(results, markedStops, dow);
+
+      markedStops = results.getMarkedStops();
+    }
+  }
+
   private scanRoutes(results: ScanResults, routeScanner: RouteScanner, markedStops: StopID[]): void {
     const queue = this.queueFactory.getQueue(markedStops);
 
@@ -69,7 +104,7 @@ export class RaptorAlgorithm {
 
       for (let pi = this.routeStopIndex[routeId][stopP]; pi < this.routePath[routeId].length; pi++) {
         const stopPi = this.routePath[routeId][pi];
-        const i = this.interchange[stopPi];
+        const i = this.interchange[stopPi] + getTripSlack(trip);
         const previousArrival = results.getArrival(stopPi);
 
         if (trip && trip.stopTimes[pi].dropOff && trip.stopTimes[pi].arrivalTime + i < results.bestArrival(stopPi)) {
@@ -97,7 +132,7 @@ export class RaptorAlgorithm {
 
       for (let pi = this.routeStopIndex[routeId][stopP]; pi >= 0; pi--) {
         const stopPi = this.routePath[routeId][pi];
-        const i = this.interchange[stopPi];
+        const i = this.interchange[stopPi] + getTripSlack(trip);
         const nextArrival = results.getArrival(stopPi);
 
         if (trip && trip.stopTimes[pi].pickUp && trip.stopTimes[pi].departureTime - i > results.bestArrival(stopPi)) {
@@ -115,26 +150,26 @@ export class RaptorAlgorithm {
     }
   }
 
-  private scanTransfers(results: ScanResults, markedStops: StopID[]): void {
+  private scanTransfers(results: ScanResults, markedStops: StopID[], dow: DayOfWeek): void {
     for (const stopP of markedStops) {
       for (const transfer of this.transfers[stopP] || []) {
         const stopPi = transfer.destination;
-        const arrival = results.getArrival(stopP) + transfer.duration + this.interchange[stopPi];
+        const arrival = results.getArrival(stopP) + transfer.duration + getTransferInterchange(transfer, this.interchange);
 
-        if (transfer.startTime <= arrival && transfer.endTime >= arrival && arrival < results.bestArrival(stopPi)) {
+        if (transfer.days[dow] && transfer.startTime <= arrival && transfer.endTime >= arrival && arrival < results.bestArrival(stopPi)) {
           results.setTransfer(transfer, arrival);
         }
       }
     }
   }
 
-  private scanTransfersReverse(results: ScanResults, markedStops: StopID[]): void {
+  private scanTransfersReverse(results: ScanResults, markedStops: StopID[], dow: DayOfWeek): void {
     for (const stopP of markedStops) {
       for (const transfer of this.transfers[stopP] || []) {
         const stopPi = transfer.destination;
-        const arrival = results.getArrival(stopP) - transfer.duration - this.interchange[stopPi];
+        const arrival = results.getArrival(stopP) - transfer.duration - getTransferInterchange(transfer, this.interchange);
 
-        if (transfer.startTime <= arrival && transfer.endTime >= arrival && arrival > results.bestArrival(stopPi)) {
+        if (transfer.days[dow] && transfer.startTime <= arrival && transfer.endTime >= arrival && arrival > results.bestArrival(stopPi)) {
           results.setTransfer(transfer, arrival);
         }
       }
@@ -142,8 +177,72 @@ export class RaptorAlgorithm {
   }
 }
 
+/**
+ * GTFS transfer_type of a timed transfer, the connecting vehicle waits for the passengers
+ */
+export const TIMED_TRANSFER = "1";
+
+/**
+ * Time added to change from or to a trip whose runs are not at an exact time (exact_times=0 in frequencies.txt), its
+ * vehicle may pass up to a headway after the planned time
+ */
+export function getTripSlack(trip: Trip | undefined): Time {
+  return trip?.headway ?? 0;
+}
+
+/**
+ * Departure times of the scans of a range scan: the departures of the trips from the stops reached on foot from the
+ * origins, minus the shortest time to walk there, within the time window. From the latest to the earliest.
+ */
+export function getRangeDepartureTimes(
+  origins: StopID[],
+  startTime: Time,
+  endTime: Time,
+  routeStopIndex: RouteStopIndex,
+  transfers: TransfersByOrigin,
+  interchange: Interchange,
+  queueFactory: QueueFactory,
+  routeScanner: RouteScanner
+): Time[] {
+  const departureTimes = new Set<Time>();
+  const accessTimes: StopTimes = origins.reduce(keyValue(origin => [origin, 0]), {});
+  const queue = [...origins];
+
+  for (let stopP = queue.shift(); stopP !== undefined; stopP = queue.shift()) {
+    for (const transfer of transfers[stopP] || []) {
+      const accessTime = accessTimes[stopP] + transfer.duration + getTransferInterchange(transfer, interchange);
+
+      if (accessTimes[transfer.destination] === undefined || accessTime < accessTimes[transfer.destination]) {
+        accessTimes[transfer.destination] = accessTime;
+        queue.push(transfer.destination);
+      }
+    }
+  }
+
+  for (const [stop, accessTime] of Object.entries(accessTimes)) {
+    for (const routeId of queueFactory.getRoutes(stop)) {
+      const stopIndex = routeStopIndex[routeId][stop];
+
+      for (const time of routeScanner.getDepartureTimes(routeId, stopIndex, startTime + accessTime, endTime + accessTime)) {
+        departureTimes.add(time - accessTime);
+      }
+    }
+  }
+
+  return [...departureTimes].sort((a, b) => b - a);
+}
+
+/**
+ * Time needed to board at the destination of a transfer, none after a timed transfer
+ */
+export function getTransferInterchange(transfer: Transfer, interchange: Interchange): Time {
+  return transfer.transferType === TIMED_TRANSFER ? 0 : interchange[transfer.destination];
+}
+
 export type RouteStopIndex = Record<RouteID, Record<StopID, number>>;
 export type RoutePaths = Record<RouteID, StopID[]>;
 export type Interchange = Record<StopID, Time>;
 export type TransfersByOrigin = Record<StopID, Transfer[]>;
 export type StopTimes = Record<StopID, Time>;
+export type StopDistances = Record<StopID, number>;
+export type ScanIndex = Record<StopID, object>;
@@ -1,10 +1,18 @@
-import { DayOfWeek, Trip } from "../gtfs/GTFS";
-import { Interchange, RaptorAlgorithm, TransfersByOrigin } from "./RaptorAlgorithm";
+import { DayOfWeek, StopID, Trip } from "../gtfs/GTFS";
+import { Interchange, RaptorAlgorithm, RoutePaths, RouteStopIndex, TransfersByOrigin } from "./RaptorAlgorithm";
+import { McRaptorAlgorithm } from "./McRaptorAlgorithm";
 import { QueueFactory } from "./QueueFactory";
-import { RouteScannerFactory, TripsIndexedByRoute } from "../raptor/RouteScanner";
+import { RouteID, RouteScannerFactory, TripsIndexedByRoute } from "../raptor/RouteScanner";
 import { getDateNumber } from "../query/DateUtil";
 import { ScanResultsFactory } from "./ScanResultsFactory";
+import { McScanResultsFactory } from "./McScanResultsFactory";
 import { MIN_INTERCHANGE_TIME } from "../utils/FormatUtils";
+import { Disruption } from "../disruptions/Disruptions";
+import { applyDisruptions } from "../disruptions/DisruptedTrips";
+import { getBlockContinuations } from "../gtfs/Blocks";
+import { DailyRaptorAlgorithm } from "./DailyRaptorAlgorithm";
+import { ConnectionIndex } from "./ScanResults";
+import { BagIndex } from "./McScanResults";
 
 /**
  * Prepares GTFS data for the raptor algorithm
@@ -19,27 +27,138 @@ export class RaptorAlgorithmFactory {
    *
    * If a date is passed all trips will be filtered to ensure they run on that date. This improves query performance
    * but reduces flexibility
+   *
+   * Disruptions close the given stops, lignes, trips and segments during their validity period. The consecutive trips
+   * of a block are joined so that passengers can stay seated
    */
   public static create(
     trips: Trip[],
     transfers: TransfersByOrigin,
     interchange: Interchange,
+    disruptions: Disruption[] = [],
     date?: Date
   ): RaptorAlgorithm {
+    return this.createRaptor(this.createIndexes(this.prepareTrips(trips, disruptions, date), transfers, interchange), interchange);
+  }
+
+  /**
+   * Set up the same indexes for the multi-criteria version of the Raptor algorithm
+   */
+  public static createMultiCriteria(
+    trips: Trip[],
+    transfers: TransfersByOrigin,
+    interchange: Interchange,
+    disruptions: Disruption[] = [],
+    date?: Date
+  ): McRaptorAlgorithm {
+    return this.createMcRaptor(this.createIndexes(this.prepareTrips(trips, disruptions, date), transfers, interchange), interchange);
+  }
+
+  /**
+   * Set up a Raptor algorithm that builds an instance for each date it is asked to scan, with only the trips running
+   * on that date. The disruptions and block continuations are applied once, the instances of the least recently
+   * scanned dates are evicted.
+   */
+  public static createDaily(
+    trips: Trip[],
+    transfers: TransfersByOrigin,
+    interchange: Interchange,
+    disruptions: Disruption[] = [],
+    maxInstances?: number
+  ): DailyRaptorAlgorithm<ConnectionIndex> {
+    const preparedTrips = this.prepareTrips(trips, disruptions);
+    const stops = this.getStops(preparedTrips);
+
+    return new DailyRaptorAlgorithm(
+      (date, dow) => this.createRaptor(this.createIndexes(this.filterTrips(preparedTrips, date, dow), transfers, interchange, stops), interchange, true),
+      maxInstances
+    );
+  }
+
+  /**
+   * Set up the same daily instances for the multi-criteria version of the Raptor algorithm
+   */
+  public static createDailyMultiCriteria(
+    trips: Trip[],
+    transfers: TransfersByOrigin,
+    interchange: Interchange,
+    disruptions: Disruption[] = [],
+    maxInstances?: number
+  ): DailyRaptorAlgorithm<BagIndex> {
+    const preparedTrips = this.prepareTrips(trips, disruptions);
+    const stops = this.getStops(preparedTrips);
+
+    return new DailyRaptorAlgorithm(
+      (date, dow) => this.createMcRaptor(this.createIndexes(this.filterTrips(preparedTrips, date, dow), transfers, interchange, stops), interchange, true),
+      maxInstances
+    );
+  }
+
+  /**
+   * Return the trips as seen by the Raptor algorithm: with the disruptions applied, the block continuations added and,
+   * if a date is provided, only the trips running on that date
+   */
+  public static prepareTrips(trips: Trip[], disruptions: Disruption[] = [], date?: Date): Trip[] {
+    if (disruptions.length > 0) {
+      trips = applyDisruptions(trips, disruptions);
+    }
+
+    trips = [...trips, ...getBlockContinuations(trips)];
+
+    if (date) {
+      trips = this.filterTrips(trips, getDateNumber(date), date.getDay() as DayOfWeek);
+    }
+
+    return trips;
+  }
+
+  private static filterTrips(trips: Trip[], date: number, dow: DayOfWeek): Trip[] {
+    return trips.filter(trip => trip.service.runsOn(date, dow));
+  }
+
+  private static getStops(trips: Trip[]): StopID[] {
+    return [...new Set(trips.flatMap(trip => trip.stopTimes.map(s => s.stopId)))];
+  }
 
+  private static createRaptor(indexes: RaptorIndexes, interchange: Interchange, preFiltered: boolean = false): RaptorAlgorithm {
+    const { routesAtStop, tripsByRoute, routeStopIndex, routePath, usefulTransfers } = indexes;
+
+    return new RaptorAlgorithm(
+      routeStopIndex,
+      routePath,
+      usefulTransfers,
+      interchange,
+      new ScanResultsFactory(Object.keys(usefulTransfers)),
+      new QueueFactory(routesAtStop, routeStopIndex),
+      new RouteScannerFactory(tripsByRoute, preFiltered),
+    );
+  }
+
+  private static createMcRaptor(indexes: RaptorIndexes, interchange: Interchange, preFiltered: boolean = false): McRaptorAlgorithm {
+    const { routesAtStop, tripsByRoute, routeStopIndex, routePath, usefulTransfers } = indexes;
+
+    return new McRaptorAlgorithm(
+      routeStopIndex,
+      routePath,
+      usefulTransfers,
+      interchange,
+      new McScanResultsFactory(Object.keys(usefulTransfers)),
+      new QueueFactory(routesAtStop, routeStopIndex),
+      new RouteScannerFactory(tripsByRoute, preFiltered),
+    );
+  }
+
+  /**
+   * Index the trips, already prepared, by route. The trips are sorted in place. The given stops are indexed even when
+   * none of the trips serve them, so that the instances of every date know the same stops
+   */
+  private static createIndexes(trips: Trip[], transfers: TransfersByOrigin, interchange: Interchange, stops: StopID[] = []): RaptorIndexes {
     const routesAtStop = {};
     const tripsByRoute = {};
     const routeStopIndex = {};
     const routePath = {};
     const usefulTransfers = {};
 
-    if (date) {
-      const dateNumber = getDateNumber(date);
-      const dow = date.getDay() as DayOfWeek;
-
-      trips = trips.filter(trip => trip.service.runsOn(dateNumber, dow));
-    }
-
     trips.sort((a, b) => a.stopTimes[0].departureTime - b.stopTimes[0].departureTime);
 
     for (const trip of trips) {
@@ -54,7 +173,7 @@ export class RaptorAlgorithmFactory {
         for (let i = path.length - 1; i >= 0; i--) {
           routeStopIndex[routeId][path[i]] = i;
           usefulTransfers[path[i]] = transfers[path[i]] || [];
-          interchange[path[i]] = interchange[path[i]] || RaptorAlgorithmFactory.DEFAULT_INTERCHANGE_TIME;
+          interchange[path[i]] = interchange[path[i]] ?? RaptorAlgorithmFactory.DEFAULT_INTERCHANGE_TIME;
           routesAtStop[path[i]] = routesAtStop[path[i]] || [];
 
           if (trip.stopTimes[i].pickUp) {
@@ -66,15 +185,12 @@ export class RaptorAlgorithmFactory {
       tripsByRoute[routeId].push(trip);
     }
 
-    return new RaptorAlgorithm(
-      routeStopIndex,
-      routePath,
-      usefulTransfers,
-      interchange,
-      new ScanResultsFactory(Object.keys(usefulTransfers)),
-      new QueueFactory(routesAtStop, routeStopIndex),
-      new RouteScannerFactory(tripsByRoute),
-    );
+    for (const stop of stops) {
+      usefulTransfers[stop] = usefulTransfers[stop] || transfers[stop] || [];
+      interchange[stop] = interchange[stop] ?? RaptorAlgorithmFactory.DEFAULT_INTERCHANGE_TIME;
+    }
+
+    return { routesAtStop, tripsByRoute, routeStopIndex, routePath, usefulTransfers };
   }
 
   private static getRouteId(trip: Trip, tripsByRoute: TripsIndexedByRoute) {
@@ -92,3 +208,14 @@ export class RaptorAlgorithmFactory {
     return routeId;
   }
 }
+
+/**
+ * Indexes shared by the Raptor algorithm implementations
+ */
+interface RaptorIndexes {
+  routesAtStop: Record<StopID, RouteID[]>;
+  tripsByRoute: TripsIndexedByRoute;
+  routeStopIndex: RouteStopIndex;
+  routePath: RoutePaths;
+  usefulTransfers: TransfersByOrigin;
+}
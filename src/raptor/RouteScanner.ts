@@ -2,6 +2,8 @@ import { DayOfWeek, Time, Trip } from "../gtfs/GTFS";
 
 /**
  * Returns trips for specific routes. Maintains a reference to the last trip returned in order to reduce plan time.
+ *
+ * When the trips are pre-filtered they all run on the date of the scan and their calendars are not checked.
  */
 export class RouteScanner {
   private readonly routeScanPosition: Record<RouteID, number> = {};
@@ -10,6 +12,7 @@ export class RouteScanner {
     private readonly tripsByRoute: TripsIndexedByRoute,
     private readonly date: number,
     private readonly dow: DayOfWeek,
+    private readonly preFiltered: boolean = false,
   ) {}
 
   /**
@@ -31,7 +34,7 @@ export class RouteScanner {
         break;
       }
       // if it is reachable and the service is running that day, update the last valid trip found
-      else if (trip.service.runsOn(this.date, this.dow)) {
+      else if (this.runs(trip)) {
         lastFound = trip;
       }
 
@@ -66,7 +69,7 @@ export class RouteScanner {
         break;
       }
       // if it is reachable and the service is running that day, update the last valid trip found
-      else if (trip.service.runsOn(this.date, this.dow)) {
+      else if (this.runs(trip)) {
         lastFound = trip;
       }
 
@@ -81,6 +84,82 @@ export class RouteScanner {
 
     return lastFound;
   }
+
+  /**
+   * Return the earliest trip possible on the given route without using the scan position. The multi-criteria scan
+   * boards the same route at non-monotonic times so the position cannot be reused between calls.
+   */
+  public getEarliestTrip(routeId: RouteID, stopIndex: number, time: Time): Trip | undefined {
+    const trips = this.tripsByRoute[routeId];
+
+    for (let i = this.findFirstDeparture(trips, stopIndex, time); i < trips.length; i++) {
+      if (this.runs(trips[i])) {
+        return trips[i];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Return the latest trip possible on the given route without using the scan position (reverse scanning)
+   */
+  public getLatestTrip(routeId: RouteID, stopIndex: number, time: Time): Trip | undefined {
+    const trips = this.tripsByRoute[routeId];
+
+    for (let i = this.findFirstDeparture(trips, stopIndex, time + 1) - 1; i >= 0; i--) {
+      if (trips[i].stopTimes[stopIndex].arrivalTime <= time && this.runs(trips[i])) {
+        return trips[i];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Return the departure times from the given stop of the trips of the route running that day, between the two times
+   */
+  public getDepartureTimes(routeId: RouteID, stopIndex: number, from: Time, to: Time): Time[] {
+    const trips = this.tripsByRoute[routeId];
+    const times: Time[] = [];
+
+    for (let i = this.findFirstDeparture(trips, stopIndex, from); i < trips.length; i++) {
+      const time = trips[i].stopTimes[stopIndex].departureTime;
+
+      if (time > to) {
+        break;
+      }
+      if (this.runs(trips[i])) {
+        times.push(time);
+      }
+    }
+
+    return times;
+  }
+
+  private runs(trip: Trip): boolean {
+    return this.preFiltered || trip.service.runsOn(this.date, this.dow);
+  }
+
+  /**
+   * Binary search the index of the first trip departing the given stop at or after the given time
+   */
+  private findFirstDeparture(trips: Trip[], stopIndex: number, time: Time): number {
+    let low = 0;
+    let high = trips.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+
+      if (trips[middle].stopTimes[stopIndex].departureTime < time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
 }
 
 /**
@@ -89,11 +168,12 @@ export class RouteScanner {
 export class RouteScannerFactory {
 
   constructor(
-    private readonly tripsByRoute: TripsIndexedByRoute
+    private readonly tripsByRoute: TripsIndexedByRoute,
+    private readonly preFiltered: boolean = false
   ) {}
 
   public create(date: number, dow: DayOfWeek): RouteScanner {
-    return new RouteScanner(this.tripsByRoute, date, dow);
+    return new RouteScanner(this.tripsByRoute, date, dow, this.preFiltered);
   }
 
 }
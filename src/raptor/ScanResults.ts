@@ -1,17 +1,57 @@
 import { StopID, Time, Transfer, Trip } from "../gtfs/GTFS";
+import { StopTimes } from "./RaptorAlgorithm";
 
 export class ScanResults {
   private k = 0;
 
   constructor(
     private readonly bestArrivals: Arrivals,
-    private readonly kArrivals: ArrivalsByNumChanges,
-    private readonly kConnections: ConnectionIndex,
-    private readonly reverse: boolean = false
+    private kArrivals: ArrivalsByNumChanges,
+    private kConnections: ConnectionIndex,
+    private readonly reverse: boolean = false,
+    private readonly kBestArrivals: ArrivalsByNumChanges = { 0: { ...bestArrivals } }
   ) {}
 
+  /**
+   * Start a new round, the best arrival of each stop is at least the one of the previous round. The best arrivals of
+   * the round found by the previous scans of a range scan are kept
+   */
   public addRound(): void {
-    this.kArrivals[++this.k] = {};
+    const previousBestArrivals = this.kBestArrivals[this.k];
+    const bestArrivals = this.kBestArrivals[++this.k];
+
+    this.kArrivals[this.k] = {};
+
+    if (!bestArrivals) {
+      this.kBestArrivals[this.k] = { ...previousBestArrivals };
+    } else {
+      for (const stop in previousBestArrivals) {
+        if (!bestArrivals.hasOwnProperty(stop) || previousBestArrivals[stop] < bestArrivals[stop]) {
+          bestArrivals[stop] = previousBestArrivals[stop];
+        }
+      }
+    }
+  }
+
+  /**
+   * Start a new scan of a range scan from origins departing before those of the previous scan. The best arrivals of
+   * each round are kept, so only the stops reached earlier than from the later departures are marked, and the
+   * connections are those found by the new scan only (rRAPTOR).
+   */
+  public restart(origins: StopTimes): void {
+    const kConnections = {};
+    for (const stop in this.kConnections) {
+      kConnections[stop] = {};
+    }
+
+    this.k = 0;
+    this.kArrivals = { 0: { ...origins } };
+    this.kConnections = kConnections;
+
+    for (const stop in origins) {
+      this.kBestArrivals[0][stop] = origins[stop];
+      this.bestArrivals[stop] = origins[stop];
+    }
   }
 
   public getArrival(stopPi: StopID): Time {
@@ -25,6 +65,7 @@ export class ScanResults {
     const stopPi = this.reverse ? trip.stopTimes[startIndex].stopId : trip.stopTimes[endIndex].stopId;
 
     this.kArrivals[this.k][stopPi] = time;
+    this.kBestArrivals[this.k][stopPi] = time;
     this.bestArrivals[stopPi] = time;
     this.kConnections[stopPi][this.k] = [trip, startIndex, endIndex];
   }
@@ -33,12 +74,16 @@ export class ScanResults {
     const stopPi = transfer.destination;
 
     this.kArrivals[this.k][stopPi] = time;
+    this.kBestArrivals[this.k][stopPi] = time;
     this.bestArrivals[stopPi] = time;
     this.kConnections[stopPi][this.k] = transfer;
   }
 
+  /**
+   * Best arrival at the stop with at most the changes of the current round
+   */
   public bestArrival(stopPi: StopID): Time {
-    return this.bestArrivals[stopPi];
+    return this.kBestArrivals[this.k][stopPi];
   }
 
   public getMarkedStops(): StopID[] {
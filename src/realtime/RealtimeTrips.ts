@@ -0,0 +1,178 @@
+import { DateNumber, DayOfWeek, StopTime, Trip } from '../gtfs/GTFS';
+import { StopTimeUpdate, TripUpdate } from './TripUpdates';
+
+/**
+ * Applies realtime updates to the scheduled trips.
+ *
+ * The scheduled trips are never modified: an updated trip is replaced by a copy of the scheduled trip that does not
+ * run on the updated day, plus (unless it is cancelled) a realtime copy that only runs on that day.
+ *
+ * An update is matched on the trip ID, on its start date, that the trip must run on, and on its start time when given.
+ * The runs of a trip of frequencies.txt are only updated by the updates with their start time.
+ *
+ * @param trips - The scheduled trips.
+ * @param updates - The trip updates of the latest snapshot.
+ *
+ * @returns The trips to give to the RAPTOR algorithm.
+ */
+export function applyTripUpdates(trips: Trip[], updates: TripUpdate[]): Trip[] {
+	const updatesByTrip = new Map<string, TripUpdate[]>();
+	for (const update of updates) {
+		if (!updatesByTrip.has(update.tripId)) {
+			updatesByTrip.set(update.tripId, []);
+		}
+		updatesByTrip.get(update.tripId)!.push(update);
+	}
+
+	const results: Trip[] = [];
+	for (const trip of trips) {
+		const tripUpdates = trip.stopTimes && trip.service
+			? updatesByTrip.get(trip.id)?.filter(update => isUpdateOf(trip, update))
+			: undefined;
+		if (!tripUpdates?.length) {
+			results.push(trip);
+			continue;
+		}
+
+		let scheduledService = trip.service;
+		for (const update of tripUpdates) {
+			scheduledService = scheduledService.restrict(update.date, update.date, false);
+
+			if (!update.cancelled) {
+				results.push({
+					...trip,
+					stopTimes: getRealtimeStopTimes(trip.stopTimes, update),
+					service: trip.service.restrict(update.date, update.date, true),
+					realtime: true,
+				});
+			}
+		}
+
+		results.push({ ...trip, service: scheduledService });
+	}
+
+	return results;
+}
+
+/**
+ * Returns true if the update is for the given run of the trip. The start time of a trip that is not a run of
+ * frequencies.txt is the departure time from its first stop.
+ */
+function isUpdateOf(trip: Trip, update: TripUpdate): boolean {
+	if (!trip.service.runsOn(update.date, getDayOfWeek(update.date))) {
+		return false;
+	}
+	if (update.startTime === undefined) {
+		return trip.startTime === undefined;
+	}
+	return update.startTime === (trip.startTime ?? trip.stopTimes[0]?.departureTime);
+}
+
+/**
+ * Returns the day of the week of a service day.
+ */
+function getDayOfWeek(date: DateNumber): DayOfWeek {
+	const year = Math.floor(date / 10000);
+	const month = Math.floor(date / 100) % 100;
+	const day = date % 100;
+
+	return new Date(Date.UTC(year, month - 1, day)).getUTCDay() as DayOfWeek;
+}
+
+/**
+ * Returns the service days whose updates differ between two snapshots, the trips of the other days are unchanged.
+ *
+ * @param previous - The trip updates of the previous snapshot.
+ * @param updates - The trip updates of the latest snapshot.
+ */
+export function getChangedDates(previous: TripUpdate[], updates: TripUpdate[]): Set<DateNumber> {
+	const getUpdatesByDate = (tripUpdates: TripUpdate[]): Map<DateNumber, string[]> => {
+		const updatesByDate = new Map<DateNumber, string[]>();
+		for (const update of tripUpdates) {
+			if (!updatesByDate.has(update.date)) {
+				updatesByDate.set(update.date, []);
+			}
+			updatesByDate.get(update.date)!.push(JSON.stringify(update));
+		}
+		return updatesByDate;
+	};
+
+	const previousByDate = getUpdatesByDate(previous);
+	const updatesByDate = getUpdatesByDate(updates);
+	const changedDates = new Set<DateNumber>();
+
+	for (const date of new Set([...previousByDate.keys(), ...updatesByDate.keys()])) {
+		const before = (previousByDate.get(date) || []).sort().join();
+		const after = (updatesByDate.get(date) || []).sort().join();
+		if (before !== after) {
+			changedDates.add(date);
+		}
+	}
+
+	return changedDates;
+}
+
+/**
+ * Computes the realtime stop times of a trip. As in the GTFS-Realtime specification, a delay is propagated to the
+ * following stops until another update is given. Skipped stops can no longer be used to board or alight.
+ *
+ * @param stopTimes - The scheduled stop times.
+ * @param update - The update of the trip.
+ *
+ * @returns The updated stop times.
+ */
+function getRealtimeStopTimes(stopTimes: StopTime[], update: TripUpdate): StopTime[] {
+	const results: StopTime[] = [];
+	let delay = update.delay || 0;
+	let previousDeparture = Number.MIN_SAFE_INTEGER;
+
+	for (const stopTime of stopTimes) {
+		const stopTimeUpdate = findStopTimeUpdate(update.stopTimeUpdates, stopTime);
+		let arrivalTime = stopTime.arrivalTime + delay;
+		let departureTime = stopTime.departureTime + delay;
+
+		if (stopTimeUpdate) {
+			const arrivalDelay = getDelay(stopTimeUpdate.arrivalDelay, stopTimeUpdate.arrivalTime, stopTime.arrivalTime);
+			const departureDelay = getDelay(stopTimeUpdate.departureDelay, stopTimeUpdate.departureTime, stopTime.departureTime);
+
+			arrivalTime = stopTime.arrivalTime + (arrivalDelay ?? departureDelay ?? delay);
+			departureTime = stopTime.departureTime + (departureDelay ?? arrivalDelay ?? delay);
+			delay = departureTime - stopTime.departureTime;
+		}
+
+		// a vehicle can neither arrive before leaving the previous stop nor leave before arriving
+		arrivalTime = Math.max(arrivalTime, previousDeparture);
+		departureTime = Math.max(departureTime, arrivalTime);
+		previousDeparture = departureTime;
+
+		results.push({
+			...stopTime,
+			arrivalTime: arrivalTime,
+			departureTime: departureTime,
+			pickUp: stopTime.pickUp && !stopTimeUpdate?.skipped,
+			dropOff: stopTime.dropOff && !stopTimeUpdate?.skipped,
+		});
+	}
+
+	return results;
+}
+
+/**
+ * Finds the update of a stop, matched on the stop sequence when given and on the stop ID otherwise.
+ */
+function findStopTimeUpdate(stopTimeUpdates: StopTimeUpdate[], stopTime: StopTime): StopTimeUpdate | undefined {
+	return stopTimeUpdates.find(update => update.stopSequence !== undefined
+		? update.stopSequence === stopTime.stopSequence
+		: update.stopId === stopTime.stopId
+	);
+}
+
+/**
+ * Returns the delay of a stop time event, given either as a delay or as an absolute time.
+ */
+function getDelay(delay: number | undefined, time: number | undefined, scheduledTime: number): number | undefined {
+	if (delay !== undefined) {
+		return delay;
+	}
+	return time !== undefined ? time - scheduledTime : undefined;
+}
@@ -0,0 +1,107 @@
+import { readFile } from 'fs/promises';
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import { DateNumber, StopID, Time, TripID } from '../gtfs/GTFS';
+import { TimeParser } from '../gtfs/TimeParser';
+import { getDateNumber } from '../query/DateUtil';
+
+/**
+ * Realtime update of a trip for a single service day. The start time tells apart the runs of a trip of frequencies.txt.
+ */
+export interface TripUpdate {
+	tripId: TripID;
+	date: DateNumber;
+	startTime?: Time;
+	cancelled: boolean;
+	delay?: number;
+	stopTimeUpdates: StopTimeUpdate[];
+}
+
+/**
+ * Trip updates of a GTFS-Realtime snapshot, with the time the snapshot was created (POSIX time) when the feed gives it.
+ */
+export interface TripUpdateFeed {
+	timestamp?: number;
+	updates: TripUpdate[];
+}
+
+/**
+ * Realtime update of a stop of a trip. Times are in seconds since midnight of the service day.
+ */
+export interface StopTimeUpdate {
+	stopSequence?: number;
+	stopId?: StopID;
+	skipped: boolean;
+	arrivalDelay?: number;
+	arrivalTime?: Time;
+	departureDelay?: number;
+	departureTime?: Time;
+}
+
+/**
+ * Reads a GTFS-Realtime TripUpdates snapshot from a file path or an HTTP URL.
+ *
+ * @param source - The path of the protobuf file, or the URL serving it.
+ *
+ * @returns The trip updates found in the snapshot, with its timestamp.
+ */
+export async function loadTripUpdates(source: string): Promise<TripUpdateFeed> {
+	let buffer: Uint8Array;
+	if (/^https?:\/\//.test(source)) {
+		const response = await fetch(source);
+		if (!response.ok) {
+			throw new Error(`GTFS-RT request failed with status ${response.status}`);
+		}
+		buffer = new Uint8Array(await response.arrayBuffer());
+	} else {
+		buffer = await readFile(source);
+	}
+
+	const feed = transit_realtime.FeedMessage.decode(buffer);
+	const updates: TripUpdate[] = [];
+	const timeParser = new TimeParser();
+
+	for (const entity of feed.entity) {
+		const tripUpdate = entity.tripUpdate;
+		if (!tripUpdate || !tripUpdate.trip.tripId || entity.isDeleted) continue;
+
+		const date = tripUpdate.trip.startDate ? +tripUpdate.trip.startDate : getDateNumber(new Date());
+		const midnight = getMidnightTimestamp(date);
+		const relationship = tripUpdate.trip.scheduleRelationship;
+
+		updates.push({
+			tripId: tripUpdate.trip.tripId,
+			date: date,
+			startTime: tripUpdate.trip.startTime ? timeParser.getTime(tripUpdate.trip.startTime) : undefined,
+			cancelled: relationship === transit_realtime.TripDescriptor.ScheduleRelationship.CANCELED
+				|| relationship === transit_realtime.TripDescriptor.ScheduleRelationship.DELETED,
+			delay: tripUpdate.delay ?? undefined,
+			stopTimeUpdates: (tripUpdate.stopTimeUpdate || []).map(update => ({
+				stopSequence: update.stopSequence ?? undefined,
+				stopId: update.stopId || undefined,
+				skipped: update.scheduleRelationship === transit_realtime.TripUpdate.StopTimeUpdate.ScheduleRelationship.SKIPPED,
+				arrivalDelay: update.arrival?.delay ?? undefined,
+				arrivalTime: update.arrival?.time ? Number(update.arrival.time) - midnight : undefined,
+				departureDelay: update.departure?.delay ?? undefined,
+				departureTime: update.departure?.time ? Number(update.departure.time) - midnight : undefined,
+			} satisfies StopTimeUpdate)),
+		} satisfies TripUpdate);
+	}
+
+	return {
+		timestamp: feed.header.timestamp ? Number(feed.header.timestamp) : undefined,
+		updates: updates,
+	};
+}
+
+/**
+ * Returns the POSIX timestamp of local midnight for the given service day.
+ *
+ * @param date - The service day, e.g. 20250322.
+ */
+function getMidnightTimestamp(date: DateNumber): number {
+	const year = Math.floor(date / 10000);
+	const month = Math.floor(date / 100) % 100;
+	const day = date % 100;
+
+	return new Date(year, month - 1, day).getTime() / 1000;
+}
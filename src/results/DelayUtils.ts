@@ -1,10 +1,12 @@
 import { Trip, DayOfWeek, StopTime } from "../gtfs/GTFS";
 import { getDateNumber } from "../query/DateUtil";
 import { timeToDate } from "../utils/FormatUtils";
+import { toApiId } from "../gtfs/Feeds";
 
 export interface MatchingTrip {
-	tripId: number;
-	terminusId: number;
+	tripId: number | string;
+	terminusId: number | string;
+	feedId: string;
 	subSequence: StopTime[];
 }
 
@@ -23,7 +25,7 @@ export interface MatchingTrip {
 export function findMatchingTrip(
 	stopSequence: string[],
 	trips: Trip[], 
-	ligneId: number,
+	ligneId: number | string,
 	directionId: number,
 	date: Date,
 	partir: boolean
@@ -31,7 +33,7 @@ export function findMatchingTrip(
 	const matchingTrips: Map<Date, MatchingTrip> = new Map();
 
 	for (const trip of trips) {
-		if (Number(trip.routeId) !== ligneId)
+		if (toApiId(trip.routeId) !== ligneId)
 			continue;
 		if (Number(trip.directionId) !== directionId)
 			continue;
@@ -55,7 +57,7 @@ export function findMatchingTrip(
 				continue;
 		}
 
-		matchingTrips.set(tripDate, { tripId: Number(trip.id), terminusId: Number(trip.stopTimes[trip.stopTimes.length - 1].stopId), subSequence: subsequence });
+		matchingTrips.set(tripDate, { tripId: toApiId(trip.id), terminusId: toApiId(trip.stopTimes[trip.stopTimes.length - 1].stopId), feedId: trip.feedId, subSequence: subsequence });
 	}
 
 	const sortedTrips = new Map([...matchingTrips.entries()].sort((a, b) => a[0].getTime() - b[0].getTime()));
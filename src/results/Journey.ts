@@ -6,10 +6,11 @@ import { Time, TimetableLeg, Transfer } from "../gtfs/GTFS";
 export type AnyLeg = Transfer | TimetableLeg;
 
 /**
- * A journey is a collection of legs
+ * A journey is a collection of legs. The walking distance (in meters) is only known for multi-criteria results.
  */
 export interface Journey {
   legs: AnyLeg[];
   departureTime: Time,
-  arrivalTime: Time
+  arrivalTime: Time,
+  walkingDistance?: number
 }
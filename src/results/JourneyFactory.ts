@@ -1,5 +1,5 @@
-import { StopID, Time, TimetableLeg } from "../gtfs/GTFS";
-import { isTransfer, ResultsFactory } from "./ResultsFactory";
+import { StopID } from "../gtfs/GTFS";
+import { getArrivalTime, getDepartureTime, isTransfer, ResultsFactory } from "./ResultsFactory";
 import { ConnectionIndex } from "../raptor/ScanResults";
 import { AnyLeg, Journey } from "./Journey";
 
@@ -16,8 +16,8 @@ export class JourneyFactory implements ResultsFactory {
 
     for (const k of Object.keys(kConnections[destination] || {})) {
       const legs = this.getJourneyLegs(kConnections, k, destination);
-      const departureTime = this.getDepartureTime(legs);
-      const arrivalTime = this.getArrivalTime(legs);
+      const departureTime = getDepartureTime(legs);
+      const arrivalTime = getArrivalTime(legs);
 
       results.push({ legs, departureTime, arrivalTime });
     }
@@ -33,8 +33,8 @@ export class JourneyFactory implements ResultsFactory {
 
     for (const k of Object.keys(kConnections[origin] || {})) {
       const legs = this.getReverseJourneyLegs(kConnections, k, origin);
-      const departureTime = this.getDepartureTime(legs);
-      const arrivalTime = this.getArrivalTime(legs);
+      const departureTime = getDepartureTime(legs);
+      const arrivalTime = getArrivalTime(legs);
 
       results.push({ legs, departureTime, arrivalTime });
     }
@@ -95,40 +95,4 @@ export class JourneyFactory implements ResultsFactory {
 
     return legs;
   }
-
-  private getDepartureTime(legs: AnyLeg[]): Time {
-    let transferDuration = 0;
-
-    for (const leg of legs) {
-      if (!this.isTimetableLeg(leg)) {
-        transferDuration += leg.duration;
-      }
-      else {
-        return leg.stopTimes[0].departureTime - transferDuration;
-      }
-    }
-
-    return 0;
-  }
-
-  private getArrivalTime(legs: AnyLeg[]): Time {
-    let transferDuration = 0;
-
-    for (let i = legs.length - 1; i >= 0; i--) {
-      const leg = legs[i];
-
-      if (!this.isTimetableLeg(leg)) {
-        transferDuration += leg.duration;
-      }
-      else {
-        return leg.stopTimes[leg.stopTimes.length - 1].arrivalTime + transferDuration;
-      }
-    }
-
-    return 0;
-  }
-
-  private isTimetableLeg(connection: AnyLeg): connection is TimetableLeg {
-    return (connection as TimetableLeg).stopTimes !== undefined;
-  }
 }
@@ -0,0 +1,64 @@
+import { StopID } from "../gtfs/GTFS";
+import { getArrivalTime, getDepartureTime, isTransfer, ResultsFactory } from "./ResultsFactory";
+import { BagIndex, Label } from "../raptor/McScanResults";
+import { AnyLeg, Journey } from "./Journey";
+
+/**
+ * Extracts journeys from the bags of a multi-criteria scan.
+ */
+export class McJourneyFactory implements ResultsFactory<BagIndex> {
+
+  /**
+   * Turn every label of the given destination into a journey.
+   */
+  public getResults(bags: BagIndex, destination: StopID): Journey[] {
+    return (bags[destination] || [])
+      .filter(label => label.connection)
+      .map(label => this.getJourney(this.getJourneyLegs(label).reverse(), label));
+  }
+
+  /**
+   * Turn every label of the given origin into a journey (reverse journey).
+   */
+  public getReverseResults(bags: BagIndex, origin: StopID): Journey[] {
+    return (bags[origin] || [])
+      .filter(label => label.connection)
+      .map(label => this.getJourney(this.getJourneyLegs(label), label));
+  }
+
+  private getJourney(legs: AnyLeg[], label: Label): Journey {
+    return {
+      legs,
+      departureTime: getDepartureTime(legs),
+      arrivalTime: getArrivalTime(legs),
+      walkingDistance: label.walkingDistance
+    };
+  }
+
+  /**
+   * Follow the labels back to the scan origin and build up a series of legs in the order they were found
+   */
+  private getJourneyLegs(finalLabel: Label): AnyLeg[] {
+    const legs: AnyLeg[] = [];
+
+    for (let label = finalLabel; label.connection; label = label.previous) {
+      const connection = label.connection;
+
+      if (isTransfer(connection)) {
+        legs.push(connection);
+      } else {
+        const [trip, start, end] = connection;
+        const stopTimes = trip.stopTimes.slice(Math.min(start, end), Math.max(start, end) + 1);
+
+        legs.push({
+          stopTimes,
+          origin: stopTimes[0].stopId,
+          destination: stopTimes[stopTimes.length - 1].stopId,
+          trip
+        });
+      }
+    }
+
+    return legs;
+  }
+}
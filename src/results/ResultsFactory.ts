@@ -1,15 +1,15 @@
-import { StopID, Transfer } from "../gtfs/GTFS";
-import { Journey } from "./Journey";
+import { StopID, Time, TimetableLeg, Transfer } from "../gtfs/GTFS";
+import { AnyLeg, Journey } from "./Journey";
 import { Connection, ConnectionIndex } from "../raptor/ScanResults";
 
 /**
- * Create results from the kConnections index
+ * Create results from the kConnections index (or from any other index of scan results)
  */
-export interface ResultsFactory {
+export interface ResultsFactory<T = ConnectionIndex> {
 
-  getResults(kConnections: ConnectionIndex, destination: StopID): Journey[];
+  getResults(kConnections: T, destination: StopID): Journey[];
 
-  getReverseResults(kConnections: ConnectionIndex, origin: StopID): Journey[];
+  getReverseResults(kConnections: T, origin: StopID): Journey[];
 
 }
 
@@ -19,3 +19,48 @@ export interface ResultsFactory {
 export function isTransfer(connection: Connection | Transfer): connection is Transfer {
   return (connection as Transfer).origin !== undefined;
 }
+
+/**
+ * Type check for a journey leg
+ */
+export function isTimetableLeg(connection: AnyLeg): connection is TimetableLeg {
+  return (connection as TimetableLeg).stopTimes !== undefined;
+}
+
+/**
+ * Departure time of the first timetable leg minus the duration of the transfers before it
+ */
+export function getDepartureTime(legs: AnyLeg[]): Time {
+  let transferDuration = 0;
+
+  for (const leg of legs) {
+    if (!isTimetableLeg(leg)) {
+      transferDuration += leg.duration;
+    }
+    else {
+      return leg.stopTimes[0].departureTime - transferDuration;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Arrival time of the last timetable leg plus the duration of the transfers after it
+ */
+export function getArrivalTime(legs: AnyLeg[]): Time {
+  let transferDuration = 0;
+
+  for (let i = legs.length - 1; i >= 0; i--) {
+    const leg = legs[i];
+
+    if (!isTimetableLeg(leg)) {
+      transferDuration += leg.duration;
+    }
+    else {
+      return leg.stopTimes[leg.stopTimes.length - 1].arrivalTime + transferDuration;
+    }
+  }
+
+  return 0;
+}
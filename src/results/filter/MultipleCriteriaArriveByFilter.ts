@@ -11,6 +11,11 @@ export const earliestArrival = (a, b) => b.arrivalTime <= a.arrivalTime;
  */
 export const leastChanges = (a, b) => b.legs.length <= a.legs.length;
 
+/**
+ * Returns true if b walks the same distance or less than a (only known for multi-criteria results)
+ */
+export const leastWalking = (a, b) => (b.walkingDistance || 0) <= (a.walkingDistance || 0);
+
 /**
  * Filters journeys based on a number of configurable criteria
  */
@@ -0,0 +1,45 @@
+import { Express, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * What the admin endpoints need from the API
+ */
+export interface AdminContext {
+	token: string | undefined;
+	reloadDatas(): Promise<void>;
+	// counts of the datas in use, returned once they are reloaded
+	getDatasSummary(): { trips: number; stations: number };
+}
+
+/**
+ * Adds the admin endpoints, called with the admin token in the Authorization header:
+ * - POST /itineraire/admin/reload reloads the timetable datas and waits for them to be in use.
+ */
+export function addAdminRoutes(app: Express, context: AdminContext): void {
+	app.post('/itineraire/admin/reload', async (req: Request, res: Response) => {
+		if (!isAdminAuthorized(context.token, req.headers.authorization)) {
+			return res.status(403).json({ error: 'Forbidden.' });
+		}
+
+		try {
+			await context.reloadDatas();
+		} catch (error) {
+			console.error("Nouvelles données invalides, les précédentes restent utilisées :", error);
+			return res.status(500).json({ error: `Datas not reloaded: ${(error as Error).message}` });
+		}
+		res.status(200).json(context.getDatasSummary());
+	});
+}
+
+/**
+ * Returns true if the authorization header carries the admin token. The comparison takes the same time whatever the
+ * characters that differ, so the token cannot be guessed from the response times.
+ */
+function isAdminAuthorized(token: string | undefined, authorization: string | undefined): boolean {
+	if (!token || authorization === undefined) return false;
+
+	const expected = Buffer.from(`Bearer ${token}`);
+	const received = Buffer.from(authorization);
+
+	return received.length === expected.length && timingSafeEqual(received, expected);
+}
@@ -0,0 +1,96 @@
+import { Express, Request, Response } from 'express';
+import { TimeParser } from '../gtfs/TimeParser';
+import { toApiId } from '../gtfs/Feeds';
+import { Departure, DepartureBoard } from '../departures/DepartureBoard';
+import { allVehicleTypes, DepartureGroup, getLogicalStation, getVehicleType, getVehicleTypesFromFilters, Ligne, Station, VehicleType } from '../interfaces';
+import { defaultBoardDuration, maxBoardDuration } from '../utils/FormatUtils';
+
+/**
+ * What the departure board endpoint needs from the API, read on every request so that a reload is seen
+ */
+export interface DepartureContext {
+	stations: Map<string, Station>;
+	lignes: Map<string, Ligne>;
+	departureBoard: DepartureBoard;
+	getPhysicalStopKeys(stationId: string, allowedVehicleTypes: VehicleType[]): string[] | undefined;
+}
+
+/**
+ * Adds the departure board endpoint:
+ * - GET /itineraire/departures/:stationId returns the next departures of a station, grouped by ligne and terminus.
+ */
+export function addDepartureRoutes(app: Express, context: DepartureContext): void {
+	app.get('/itineraire/departures/:stationId', async (req: Request, res: Response) => {
+		const stationId = String(req.params.stationId);
+		if (!context.stations.has(stationId)) {
+			return res.status(404).json({ error: 'Station not found.' });
+		}
+
+		const dateTime = req.query.datetime ? new Date(String(req.query.datetime)) : new Date();
+		const duration = req.query.duration ? Number(req.query.duration) : defaultBoardDuration;
+
+		if (isNaN(dateTime.getTime())) {
+			return res.status(400).json({ error: 'Invalid datetime.' });
+		}
+
+		if (!Number.isInteger(duration) || duration <= 0 || duration > maxBoardDuration) {
+			return res.status(400).json({ error: 'Invalid duration.' });
+		}
+
+		let allowedVehicleTypes: VehicleType[] = allVehicleTypes;
+		if (req.query.filters) {
+			allowedVehicleTypes = getVehicleTypesFromFilters(String(req.query.filters).split(','));
+
+			if (allowedVehicleTypes.length === 0) {
+				return res.status(400).json({ error: 'Invalid filters.' });
+			}
+		}
+
+		const timeParser = new TimeParser();
+		const startTime = timeParser.getTimeFromDate(dateTime);
+		const departures = context.departureBoard
+			.getDepartures(context.getPhysicalStopKeys(stationId, allowedVehicleTypes), dateTime, startTime, startTime + duration * 60)
+			.filter(departure => allowedVehicleTypes.includes(getVehicleType(context.lignes.get(departure.trip.routeId)?.type)));
+
+		res.status(200).json(groupDepartures(departures, context.stations, context.lignes));
+	});
+}
+
+/**
+ * Groups the departures by ligne and terminus, the groups are sorted by their next departure.
+ *
+ * @param departures - The departures, sorted by time.
+ * @param stations - A map of station IDs to Station objects.
+ * @param lignes - A map of line IDs to Ligne objects.
+ *
+ * @returns The departure groups.
+ */
+function groupDepartures(departures: Departure[], stations: Map<string, Station>, lignes: Map<string, Ligne>): DepartureGroup[] {
+	const groups = new Map<string, DepartureGroup>();
+
+	for (const { trip, stopTime, time } of departures) {
+		const terminusId = toApiId(trip.stopTimes[trip.stopTimes.length - 1].stopId);
+		const key = `${trip.routeId}-${terminusId}`;
+
+		if (!groups.has(key)) {
+			const direction = lignes.get(trip.routeId)?.directions[Number(trip.directionId)];
+			groups.set(key, {
+				ligne_id: toApiId(trip.routeId),
+				terminus_id: terminusId,
+				terminus: direction?.noms.find(nom => nom.terminus_id === terminusId)?.nom
+					?? getLogicalStation(terminusId, stations)?.station.nom,
+				departures: []
+			});
+		}
+
+		groups.get(key)!.departures.push({
+			physical_id: toApiId(stopTime.stopId),
+			trip_id: toApiId(trip.id),
+			time: time,
+			headsign: stopTime.headsign || trip.headsign,
+			realtime: trip.realtime === true
+		});
+	}
+
+	return Array.from(groups.values());
+}
@@ -0,0 +1,87 @@
+import { Express, Request, Response } from 'express';
+import { TimeParser } from '../gtfs/TimeParser';
+import { StopIndex, Time } from '../gtfs/GTFS';
+import { StopTimes } from '../raptor/RaptorAlgorithm';
+import { Arrivals } from '../raptor/ScanResults';
+import { IsochroneRequest } from '../search/SearchQueries';
+import { getIsochronePolygons, getWalkTimes, WalkGraph, WalkSource } from '../geo/Isochrone';
+import { Coords } from '../interfaces';
+import { isochroneBand, maxIsochroneDuration } from '../utils/FormatUtils';
+
+/**
+ * What the isochrone endpoint needs from the API, read on every request so that a reload is seen
+ */
+export interface IsochroneContext {
+	walkGraph: WalkGraph;
+	stops: StopIndex;
+	// seconds to wait before retrying a search refused because too many are in progress
+	searchRetryAfter: number;
+	// the time the transports can be taken at the stops of the stations reached on foot from the coordinates
+	getWalkedStops(coords: Coords, dateTime: Date, startTime: Time): StopTimes;
+	isSearchPoolFull(): boolean;
+	getSearchSignal(res: Response): AbortSignal;
+	planIsochroneSearch(request: IsochroneRequest, signal: AbortSignal): Promise<Arrivals>;
+}
+
+/**
+ * Adds the isochrone endpoint:
+ * - GET /itineraire/isochrone returns the areas reached from a point within each band of the duration.
+ */
+export function addIsochroneRoutes(app: Express, context: IsochroneContext): void {
+	app.get('/itineraire/isochrone', async (req: Request, res: Response) => {
+		const coords = { latitude: Number(req.query.lat), longitude: Number(req.query.lng) };
+		const dateTime = new Date(String(req.query.datetime));
+		const duration = Number(req.query.duration);
+
+		if (isNaN(coords.latitude) || isNaN(coords.longitude) || isNaN(dateTime.getTime())) {
+			return res.status(400).json({ error: 'Invalid parameters.' });
+		}
+
+		if (!Number.isInteger(duration) || duration <= 0 || duration > maxIsochroneDuration) {
+			return res.status(400).json({ error: 'Invalid duration.' });
+		}
+
+		const timeParser = new TimeParser();
+		const startTime = timeParser.getTimeFromDate(dateTime);
+		const budget = duration * 60;
+
+		// Walk to the closest stations, then take the transports from their stops
+		const origins = context.getWalkedStops(coords, dateTime, startTime);
+
+		if (context.isSearchPoolFull()) {
+			res.setHeader('Retry-After', context.searchRetryAfter);
+			return res.status(503).json({ error: 'Too many searches in progress.' });
+		}
+
+		const signal = context.getSearchSignal(res);
+		let arrivals: Arrivals = {};
+		try {
+			if (Object.keys(origins).length > 0) {
+				arrivals = await context.planIsochroneSearch({ queries: 'queries', origins, date: dateTime, endTime: startTime + budget }, signal);
+			}
+		} catch (error) {
+			if (signal.aborted) {
+				return res.status(504).json({ error: 'Search timed out.' });
+			}
+			throw error;
+		}
+
+		// Then walk from the departure point and from every reached stop
+		const sources: WalkSource[] = [{ coords, time: 0 }];
+		for (const [stopId, time] of Object.entries(arrivals)) {
+			const stop = context.stops[stopId];
+			if (stop) {
+				sources.push({ coords: { latitude: stop.latitude, longitude: stop.longitude }, time: time - startTime });
+			}
+		}
+
+		const bands: number[] = [];
+		for (let band = isochroneBand; band < duration; band += isochroneBand) {
+			bands.push(band * 60);
+		}
+		bands.push(budget);
+
+		const times = getWalkTimes(context.walkGraph, sources, budget);
+		res.status(200).json(getIsochronePolygons(context.walkGraph, times, bands));
+	});
+}
@@ -0,0 +1,307 @@
+import { Worker } from 'worker_threads';
+import { Journey } from '../results/Journey';
+import { TripUpdate } from '../realtime/TripUpdates';
+import { Disruption } from '../disruptions/Disruptions';
+import { IsochroneRequest, PlanRequest } from './SearchQueries';
+import { Arrivals } from '../raptor/ScanResults';
+import { DateNumber } from '../gtfs/GTFS';
+
+// Delay before a worker that stopped unexpectedly is replaced, so that a worker failing at startup does not loop
+const respawnDelay: number = 5 * 1000;
+
+/**
+ * Timetable of the workers. The snapshot is in a SharedArrayBuffer, so its bytes are shared with the workers and not
+ * copied, but each worker decodes its own trips and stop times from it, again only when a new one is given. When only
+ * the realtime updates changed, the changed dates are given so that the workers keep the RAPTOR instances of the other
+ * dates.
+ */
+export interface SearchWorkerTimetable {
+	snapshot?: Uint8Array;
+	tripUpdates: TripUpdate[];
+	disruptions: Disruption[];
+	changedDates?: DateNumber[];
+}
+
+/**
+ * Search sent to a worker: a journey search, or an isochrone search
+ */
+export type SearchWorkerTask =
+	| { type: 'plan'; id: number; request: PlanRequest }
+	| { type: 'isochrone'; id: number; request: IsochroneRequest };
+
+/**
+ * Message sent to a worker: a new timetable, or a search
+ */
+export type SearchWorkerMessage = ({ type: 'timetable' } & SearchWorkerTimetable) | SearchWorkerTask;
+
+/**
+ * Message sent back by a worker, with the result or the error of the search
+ */
+export interface SearchWorkerResult {
+	id: number;
+	result?: Journey[] | Arrivals;
+	error?: string;
+}
+
+/**
+ * Message sent back by a worker once the searches it is given use the new timetable
+ */
+export interface SearchWorkerTimetableSet {
+	type: 'timetable';
+}
+
+interface SearchTask {
+	message: SearchWorkerTask;
+	signal?: AbortSignal;
+	resolve: (result: Journey[] | Arrivals) => void;
+	reject: (error: unknown) => void;
+	abort: () => void;
+}
+
+interface PoolWorker {
+	worker: Worker;
+	task?: SearchTask;
+}
+
+interface TimetableUpdate {
+	workers: Set<PoolWorker>;
+	resolves: (() => void)[];
+}
+
+/**
+ * Pool of worker threads planning the journey searches, so that a long search does not block the other requests.
+ *
+ * The searches are queued and given to the first idle worker. A search is cancelled when its signal is aborted (on a
+ * timeout or when the client disconnects): a queued search is removed from the queue, and as a running search cannot
+ * be interrupted, the worker running it is terminated and replaced, so that a slow search does not keep holding it.
+ * The queue depth is exposed so that the new requests can be refused when the pool cannot keep up.
+ *
+ * While a new snapshot is given to the workers, the searches are held in the queue until every worker uses it, so
+ * that a search is never planned on a snapshot other than the one of the datas its journeys are formatted with.
+ */
+export class SearchPool {
+	private readonly workers: PoolWorker[] = [];
+	private readonly queue: SearchTask[] = [];
+	private nextId: number = 0;
+	private closed: boolean = false;
+	private timetableUpdate?: TimetableUpdate;
+
+	/**
+	 * @param script - The path of the compiled SearchWorker script.
+	 * @param size - The number of workers.
+	 * @param maxQueueDepth - The number of queued searches from which the pool is full.
+	 * @param timetable - The timetable of the workers, with its snapshot.
+	 */
+	constructor(
+		private readonly script: string,
+		size: number,
+		private readonly maxQueueDepth: number,
+		private timetable: SearchWorkerTimetable
+	) {
+		for (let i = 0; i < size; i++) {
+			this.workers.push(this.spawn());
+		}
+	}
+
+	/**
+	 * Number of searches waiting for a worker
+	 */
+	public get queueDepth(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Returns true if the new searches should be refused until the queue is shorter.
+	 */
+	public isFull(): boolean {
+		return this.queue.length >= this.maxQueueDepth;
+	}
+
+	/**
+	 * Plans a journey search in a worker.
+	 *
+	 * @param request - The journey search.
+	 * @param signal - Cancels the search when aborted, the promise is then rejected with the abort reason.
+	 *
+	 * @returns The journeys found.
+	 */
+	public plan(request: PlanRequest, signal?: AbortSignal): Promise<Journey[]> {
+		return this.run({ type: 'plan', id: this.nextId++, request }, signal) as Promise<Journey[]>;
+	}
+
+	/**
+	 * Plans an isochrone search in a worker.
+	 *
+	 * @param request - The isochrone search.
+	 * @param signal - Cancels the search when aborted, the promise is then rejected with the abort reason.
+	 *
+	 * @returns The earliest arrival time at every stop reached.
+	 */
+	public isochrone(request: IsochroneRequest, signal?: AbortSignal): Promise<Arrivals> {
+		return this.run({ type: 'isochrone', id: this.nextId++, request }, signal) as Promise<Arrivals>;
+	}
+
+	/**
+	 * Gives a new timetable to the workers, the searches sent after it use it. The snapshot is kept when none is given.
+	 * When a new snapshot is given, the searches are held until every worker uses it, the searches already running
+	 * finish on the previous one.
+	 *
+	 * @returns A promise resolved once every worker uses the new snapshot, the searches are then given to the workers
+	 * again. Resolved right away when no snapshot is given.
+	 */
+	public setTimetable(timetable: SearchWorkerTimetable): Promise<void> {
+		this.timetable = {
+			snapshot: timetable.snapshot ?? this.timetable.snapshot,
+			tripUpdates: timetable.tripUpdates,
+			disruptions: timetable.disruptions,
+		};
+
+		for (const { worker } of this.workers) {
+			worker.postMessage({ type: 'timetable', ...timetable } satisfies SearchWorkerMessage);
+		}
+
+		if (!timetable.snapshot) {
+			return Promise.resolve();
+		}
+
+		return new Promise(resolve => {
+			this.timetableUpdate = {
+				workers: new Set(this.workers),
+				resolves: [...(this.timetableUpdate?.resolves || []), resolve],
+			};
+		});
+	}
+
+	/**
+	 * Stops the workers, the searches not finished are rejected.
+	 */
+	public async close(): Promise<void> {
+		this.closed = true;
+		this.timetableUpdate?.resolves.forEach(resolve => resolve());
+		this.timetableUpdate = undefined;
+
+		for (const task of [...this.queue, ...this.workers.map(poolWorker => poolWorker.task)]) {
+			if (!task) continue;
+			task.signal?.removeEventListener('abort', task.abort);
+			task.reject(new Error("Search pool closed"));
+		}
+		this.queue.length = 0;
+
+		await Promise.all(this.workers.map(({ worker }) => worker.terminate()));
+	}
+
+	private run(message: SearchWorkerTask, signal?: AbortSignal): Promise<Journey[] | Arrivals> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				return reject(signal.reason);
+			}
+
+			const task: SearchTask = { message, signal, resolve, reject, abort: () => this.cancel(task) };
+			signal?.addEventListener('abort', task.abort, { once: true });
+
+			this.queue.push(task);
+			this.dispatch();
+		});
+	}
+
+	private spawn(): PoolWorker {
+		const poolWorker: PoolWorker = { worker: new Worker(this.script, { workerData: this.timetable }) };
+
+		poolWorker.worker.on('message', (message: SearchWorkerResult | SearchWorkerTimetableSet) => {
+			if ('type' in message) {
+				this.onTimetableSet(poolWorker);
+			} else {
+				this.complete(poolWorker, message);
+			}
+		});
+		poolWorker.worker.on('error', error => console.error("Search worker error:", error));
+		poolWorker.worker.on('exit', () => this.onExit(poolWorker));
+
+		return poolWorker;
+	}
+
+	/**
+	 * Gives the queued searches to the idle workers, unless a new snapshot is being given to them
+	 */
+	private dispatch(): void {
+		if (this.timetableUpdate) return;
+
+		for (const poolWorker of this.workers) {
+			if (this.queue.length === 0) return;
+			if (poolWorker.task) continue;
+
+			const task = this.queue.shift()!;
+			poolWorker.task = task;
+			poolWorker.worker.postMessage(task.message satisfies SearchWorkerMessage);
+		}
+	}
+
+	private complete(poolWorker: PoolWorker, result: SearchWorkerResult): void {
+		const task = poolWorker.task;
+		if (!task || task.message.id !== result.id) return;
+
+		poolWorker.task = undefined;
+		task.signal?.removeEventListener('abort', task.abort);
+		if (result.error !== undefined) {
+			task.reject(new Error(result.error));
+		} else {
+			task.resolve(result.result);
+		}
+
+		this.dispatch();
+	}
+
+	private cancel(task: SearchTask): void {
+		const index = this.queue.indexOf(task);
+		const poolWorker = this.workers.find(w => w.task === task);
+
+		if (index !== -1) {
+			this.queue.splice(index, 1);
+		} else if (poolWorker) {
+			// the worker is replaced right away, the exit of the terminated one is ignored
+			this.workers[this.workers.indexOf(poolWorker)] = this.spawn();
+			poolWorker.worker.removeAllListeners('exit');
+			poolWorker.worker.terminate();
+			this.onTimetableSet(poolWorker);
+		} else {
+			return;
+		}
+
+		task.reject(task.signal.reason);
+		this.dispatch();
+	}
+
+	/**
+	 * Replaces a worker that stopped unexpectedly, its search is rejected
+	 */
+	private onExit(poolWorker: PoolWorker): void {
+		const index = this.workers.indexOf(poolWorker);
+		if (this.closed || index === -1) return;
+
+		this.workers.splice(index, 1);
+		this.onTimetableSet(poolWorker);
+		if (poolWorker.task) {
+			poolWorker.task.signal?.removeEventListener('abort', poolWorker.task.abort);
+			poolWorker.task.reject(new Error("Search worker stopped"));
+		}
+
+		setTimeout(() => {
+			if (this.closed) return;
+			this.workers.push(this.spawn());
+			this.dispatch();
+		}, respawnDelay);
+	}
+
+	/**
+	 * Counts the worker as using the new snapshot, a replaced worker starts with it. Once they all do, the held
+	 * searches are given to them.
+	 */
+	private onTimetableSet(poolWorker: PoolWorker): void {
+		const update = this.timetableUpdate;
+		if (!update || !update.workers.delete(poolWorker) || update.workers.size > 0) return;
+
+		this.timetableUpdate = undefined;
+		update.resolves.forEach(resolve => resolve());
+		this.dispatch();
+	}
+}
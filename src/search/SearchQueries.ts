@@ -0,0 +1,218 @@
+import { Journey } from "../results/Journey";
+import { JourneyFactory } from "../results/JourneyFactory";
+import { McJourneyFactory } from "../results/McJourneyFactory";
+import {
+	earliestArrival as earliestArrivalBy,
+	leastChanges as leastChangesBy,
+	leastWalking as leastWalkingBy,
+	MultipleCriteriaArriveByFilter
+} from '../results/filter/MultipleCriteriaArriveByFilter';
+import { earliestArrival, leastChanges, leastWalking, MultipleCriteriaDepartAfterFilter } from '../results/filter/MultipleCriteriaDepartAfterFilter';
+import { DateNumber, StopID, StopIndex, Time, Trip } from "../gtfs/GTFS";
+import { GroupStationDepartAfterQuery } from "../query/GroupStationDepartAfterQuery";
+import { GroupStationArriveByQuery } from "../query/GroupStationArriveByQuery";
+import { GroupStationRangeQuery } from "../query/GroupStationRangeQuery";
+import { IsochroneQuery } from "../query/IsochroneQuery";
+import { TransferPatternQuery } from "../query/TransferPatternQuery";
+import { RaptorAlgorithmFactory } from "../raptor/RaptorAlgorithmFactory";
+import { DailyRaptorAlgorithm } from "../raptor/DailyRaptorAlgorithm";
+import { Interchange, ScanIndex, StopDistances, StopTimes, TransfersByOrigin } from "../raptor/RaptorAlgorithm";
+import { Arrivals } from "../raptor/ScanResults";
+import { getAccessibleTransfers, getAccessibleTrips } from "../accessibility/Accessibility";
+import { TransferPatternStorage } from "../transfer-pattern/TransferPatternStorage";
+import { Disruption } from "../disruptions/Disruptions";
+
+/**
+ * Query objects sharing the same RAPTOR engine
+ */
+export interface Queries {
+	raptor: DailyRaptorAlgorithm<ScanIndex>;
+	depart: GroupStationDepartAfterQuery<ScanIndex>;
+	arrive: GroupStationArriveByQuery<ScanIndex>;
+	range: GroupStationRangeQuery<ScanIndex>;
+	isochrone: IsochroneQuery<ScanIndex>;
+	patterns?: TransferPatternQuery;
+}
+
+/**
+ * Queries of the standard and multi-criteria engines, with every trip or the wheelchair accessible ones only
+ */
+export interface SearchQueries {
+	queries: Queries;
+	mcQueries: Queries;
+	accessibleQueries: Queries;
+	accessibleMcQueries: Queries;
+}
+
+/**
+ * Journey search between two sets of stops, as planned by searchJourneys. It only holds plain values so that it can
+ * be sent to a worker thread.
+ */
+export interface PlanRequest {
+	queries: keyof SearchQueries;
+	type: 'depart' | 'arrive' | 'range';
+	origins: StopID[];
+	destinations: StopID[];
+	date: Date;
+	time: Time;
+	endTime?: Time;
+	walkingDistances: StopDistances;
+}
+
+/**
+ * Search of the stops reachable from a set of origins before an end time, as planned for the isochrones.
+ */
+export interface IsochroneRequest {
+	queries: keyof SearchQueries;
+	origins: StopTimes;
+	date: Date;
+	endTime: Time;
+}
+
+/**
+ * Creates the queries of every engine from the trips, with their realtime updates already applied.
+ *
+ * @param trips - The trips, with their realtime updates.
+ * @param transfers - The transfers between the stops.
+ * @param interchange - The interchange time of each stop.
+ * @param stops - The stops, used to find the wheelchair accessible ones.
+ * @param disruptions - The disruptions applied to the trips.
+ * @param transferPatternStorage - The transfer patterns evaluated before RAPTOR, if any.
+ * @param previous - The queries built before from the same timetable and disruptions, if only the realtime updates
+ * changed. Their RAPTOR instances are kept, except those of the changed dates.
+ * @param changedDates - The dates whose realtime updates changed since the previous queries.
+ *
+ * @returns The queries.
+ */
+export function createSearchQueries(
+	trips: Trip[],
+	transfers: TransfersByOrigin,
+	interchange: Interchange,
+	stops: StopIndex,
+	disruptions: Disruption[],
+	transferPatternStorage: TransferPatternStorage | null,
+	previous?: SearchQueries,
+	changedDates: Set<DateNumber> = new Set()
+): SearchQueries {
+	const [queries, mcQueries] = createQueries(
+		trips,
+		transfers,
+		interchange,
+		disruptions,
+		transferPatternStorage,
+		previous && [previous.queries, previous.mcQueries],
+		changedDates
+	);
+
+	// Wheelchair accessible trips, stops and transfers only
+	const [accessibleQueries, accessibleMcQueries] = createQueries(
+		getAccessibleTrips(trips, stops),
+		getAccessibleTransfers(transfers, stops),
+		interchange,
+		disruptions,
+		transferPatternStorage,
+		previous && [previous.accessibleQueries, previous.accessibleMcQueries],
+		changedDates
+	);
+
+	return { queries, mcQueries, accessibleQueries, accessibleMcQueries };
+}
+
+/**
+ * Plans the journeys of a request with the given queries. The transfer patterns are used for the departures when
+ * they are available.
+ *
+ * @param queries - The queries of the engine of the request.
+ * @param request - The journey search.
+ *
+ * @returns The journeys found.
+ */
+export async function planJourneys(queries: Queries, request: PlanRequest): Promise<Journey[]> {
+	const { origins, destinations, date, time, walkingDistances } = request;
+
+	switch (request.type) {
+		case 'range':
+			return queries.range.plan(origins, destinations, date, time, request.endTime ?? time, walkingDistances);
+		case 'arrive':
+			return queries.arrive.plan(origins, destinations, date, time, walkingDistances);
+		default:
+			return queries.patterns
+				? queries.patterns.plan(origins, destinations, date, time, walkingDistances)
+				: queries.depart.plan(origins, destinations, date, time, walkingDistances);
+	}
+}
+
+/**
+ * Plans an isochrone request with the given queries.
+ *
+ * @param queries - The queries of the engine of the request.
+ * @param request - The isochrone search.
+ *
+ * @returns The earliest arrival time at every stop reached before the end time.
+ */
+export function planIsochrone(queries: Queries, request: IsochroneRequest): Arrivals {
+	return queries.isochrone.plan(request.origins, request.date, request.endTime);
+}
+
+/**
+ * Creates the standard and multi-criteria queries of a set of trips, with the RAPTOR instances of the previous queries
+ * for the dates that did not change.
+ */
+function createQueries(
+	trips: Trip[],
+	transfers: TransfersByOrigin,
+	interchange: Interchange,
+	disruptions: Disruption[],
+	transferPatternStorage: TransferPatternStorage | null,
+	previous: [Queries, Queries] | undefined,
+	changedDates: Set<DateNumber>
+): [Queries, Queries] {
+	// RAPTOR config, with an instance for each date being queried
+	const raptor = RaptorAlgorithmFactory.createDaily(trips, transfers, interchange, disruptions);
+	const resultsFactory = new JourneyFactory();
+	const departFilter = new MultipleCriteriaDepartAfterFilter();
+	const arrivalFilter = new MultipleCriteriaArriveByFilter();
+
+	// McRAPTOR config (arrival time, number of changes and walking distance)
+	const mcRaptor = RaptorAlgorithmFactory.createDailyMultiCriteria(trips, transfers, interchange, disruptions);
+	const mcResultsFactory = new McJourneyFactory();
+	const mcDepartFilter = new MultipleCriteriaDepartAfterFilter([earliestArrival, leastChanges, leastWalking]);
+	const mcArrivalFilter = new MultipleCriteriaArriveByFilter([earliestArrivalBy, leastChangesBy, leastWalkingBy]);
+
+	if (previous) {
+		raptor.keepInstances(previous[0].raptor, changedDates);
+		mcRaptor.keepInstances(previous[1].raptor, changedDates);
+	}
+
+	const depart = new GroupStationDepartAfterQuery(raptor, resultsFactory, 1, [departFilter]);
+
+	// Transfer patterns, evaluated against the same trips as RAPTOR which is used as fallback
+	const patterns = transferPatternStorage
+		? new TransferPatternQuery(
+			transferPatternStorage,
+			RaptorAlgorithmFactory.prepareTrips(trips, disruptions),
+			transfers,
+			interchange,
+			depart,
+			[departFilter]
+		)
+		: undefined;
+
+	return [
+		{
+			raptor: raptor,
+			depart: depart,
+			arrive: new GroupStationArriveByQuery(raptor, resultsFactory, 1, [arrivalFilter]),
+			range: new GroupStationRangeQuery(raptor, resultsFactory, [departFilter]),
+			isochrone: new IsochroneQuery(raptor),
+			patterns: patterns,
+		},
+		{
+			raptor: mcRaptor,
+			depart: new GroupStationDepartAfterQuery(mcRaptor, mcResultsFactory, 1, [mcDepartFilter]),
+			arrive: new GroupStationArriveByQuery(mcRaptor, mcResultsFactory, 1, [mcArrivalFilter]),
+			range: new GroupStationRangeQuery(mcRaptor, mcResultsFactory, [mcDepartFilter]),
+			isochrone: new IsochroneQuery(mcRaptor),
+		}
+	];
+}
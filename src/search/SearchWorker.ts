@@ -0,0 +1,65 @@
+import { parentPort, workerData } from 'worker_threads';
+import { decodeSnapshot } from '../gtfs/Snapshot';
+import { GTFSData } from '../gtfs/GTFSLoader';
+import { DateNumber } from '../gtfs/GTFS';
+import { applyTripUpdates } from '../realtime/RealtimeTrips';
+import { TripUpdate } from '../realtime/TripUpdates';
+import { Disruption } from '../disruptions/Disruptions';
+import { createTransferPatternStorage } from '../transfer-pattern/TransferPatternStorage';
+import { createSearchQueries, planIsochrone, planJourneys, SearchQueries } from './SearchQueries';
+import { SearchWorkerMessage, SearchWorkerResult, SearchWorkerTimetable, SearchWorkerTimetableSet } from './SearchPool';
+
+/**
+ * Worker thread of the search pool: it decodes its own copy of the trips and stop times from the bytes of the
+ * timetable snapshot, builds the queries of every engine and plans the searches it is given, one at a time.
+ */
+const transferPatternsDatabase = process.env.TRANSFER_PATTERNS_DATABASE;
+const transferPatternStorage = transferPatternsDatabase ? createTransferPatternStorage(transferPatternsDatabase) : null;
+
+let timetable: GTFSData;
+let queries: SearchQueries;
+
+/**
+ * Decodes the snapshot, if a new one is given, and rebuilds the queries with the realtime updates and disruptions.
+ * When only the realtime updates of some dates changed, the RAPTOR instances of the other dates are kept.
+ */
+function setTimetable(snapshot: Uint8Array | undefined, tripUpdates: TripUpdate[], disruptions: Disruption[], changedDates?: DateNumber[]): void {
+	if (snapshot) {
+		timetable = decodeSnapshot(snapshot);
+	}
+	const previous = !snapshot && changedDates ? queries : undefined;
+
+	queries = createSearchQueries(
+		applyTripUpdates(timetable.trips, tripUpdates),
+		timetable.transfers,
+		timetable.interchange,
+		timetable.stops,
+		disruptions,
+		transferPatternStorage,
+		previous,
+		new Set(changedDates)
+	);
+}
+
+const initial: SearchWorkerTimetable = workerData;
+setTimetable(initial.snapshot, initial.tripUpdates, initial.disruptions);
+
+parentPort.on('message', async (message: SearchWorkerMessage) => {
+	if (message.type === 'timetable') {
+		setTimetable(message.snapshot, message.tripUpdates, message.disruptions, message.changedDates);
+		// the pool holds the searches until every worker uses the new snapshot
+		if (message.snapshot) {
+			parentPort.postMessage({ type: 'timetable' } satisfies SearchWorkerTimetableSet);
+		}
+		return;
+	}
+
+	try {
+		const result = message.type === 'isochrone'
+			? planIsochrone(queries[message.request.queries], message.request)
+			: await planJourneys(queries[message.request.queries], message.request);
+		parentPort.postMessage({ id: message.id, result } satisfies SearchWorkerResult);
+	} catch (error) {
+		parentPort.postMessage({ id: message.id, error: `${error}` } satisfies SearchWorkerResult);
+	}
+});
@@ -0,0 +1,140 @@
+import { appendFile, mkdir, open, rename, stat, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { JourneyPatternKey, TransferPatternIndex } from "./results/StringResults";
+import { TransferPatternStorage } from "./TransferPatternStorage";
+
+/**
+ * Stores the transfer patterns in a local file, for when no database server is available.
+ *
+ * The file is append only: each line is a journey key and a pattern separated by a tab. The patterns are kept in
+ * memory and the lines appended since the last read are loaded before each operation, so the patterns stored by
+ * another process (e.g. the generator while the API is running) are seen without a restart. Clearing the patterns
+ * replaces the file, which is noticed by its inode changing.
+ */
+export class FileTransferPatternStorage implements TransferPatternStorage {
+  private patterns: TransferPatternIndex = {};
+  private inode: number = -1;
+  private size: number = 0;
+
+  constructor(
+    private readonly path: string
+  ) { }
+
+  /**
+   * Create the file if it does not already exist
+   */
+  public async initTables(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, "");
+  }
+
+  /**
+   * Append the patterns that are not already stored
+   */
+  public async storeTransferPatterns(patterns: TransferPatternIndex): Promise<void> {
+    await this.refresh();
+
+    const lines: string[] = [];
+
+    for (const journey in patterns) {
+      for (const pattern of patterns[journey]) {
+        if (!this.patterns[journey]?.has(pattern)) {
+          lines.push(journey + "\t" + pattern + "\n");
+          this.addPattern(journey, pattern);
+        }
+      }
+    }
+
+    // the lines are read again on the next refresh, which is harmless as the patterns are sets
+    if (lines.length > 0) {
+      await appendFile(this.path, lines.join(""));
+    }
+  }
+
+  /**
+   * Return the transfer patterns of the given journeys, journeys without patterns are not in the index
+   */
+  public async getTransferPatterns(journeys: JourneyPatternKey[]): Promise<TransferPatternIndex> {
+    await this.refresh();
+
+    const results: TransferPatternIndex = {};
+
+    for (const journey of journeys) {
+      if (this.patterns[journey]) {
+        results[journey] = this.patterns[journey];
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Replace the file with an empty one
+   */
+  public async clearTransferPatterns(): Promise<void> {
+    const tmpPath = this.path + ".tmp";
+
+    await writeFile(tmpPath, "");
+    await rename(tmpPath, this.path);
+    await this.refresh();
+  }
+
+  /**
+   * Nothing to close, the file is only opened while it is read
+   */
+  public async close(): Promise<void> { }
+
+  /**
+   * Load the lines appended since the last read, or the whole file if it has been replaced
+   */
+  private async refresh(): Promise<void> {
+    let stats;
+    try {
+      stats = await stat(this.path);
+    }
+    catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw err;
+      }
+      stats = { ino: -1, size: 0 };
+    }
+
+    if (stats.ino !== this.inode || stats.size < this.size) {
+      this.patterns = {};
+      this.inode = stats.ino;
+      this.size = 0;
+    }
+
+    if (stats.size === this.size) {
+      return;
+    }
+
+    const buffer = Buffer.alloc(stats.size - this.size);
+    const file = await open(this.path, "r");
+    try {
+      await file.read(buffer, 0, buffer.length, this.size);
+    }
+    finally {
+      await file.close();
+    }
+
+    // a line still being written is read on the next refresh
+    const end = buffer.lastIndexOf("\n") + 1;
+
+    for (const line of buffer.toString("utf-8", 0, end).split("\n")) {
+      const separator = line.indexOf("\t");
+
+      if (separator !== -1) {
+        this.addPattern(line.slice(0, separator), line.slice(separator + 1));
+      }
+    }
+
+    this.size += end;
+  }
+
+  private addPattern(journey: JourneyPatternKey, pattern: string): void {
+    this.patterns[journey] = this.patterns[journey] || new Set();
+    this.patterns[journey].add(pattern);
+  }
+
+}
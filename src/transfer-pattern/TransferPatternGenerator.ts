@@ -0,0 +1,58 @@
+import { DayOfWeek, StopID } from "../gtfs/GTFS";
+import { Interchange, RaptorAlgorithm } from "../raptor/RaptorAlgorithm";
+import { getDateNumber } from "../query/DateUtil";
+import { StringResults, TransferPatternIndex } from "./results/StringResults";
+import { GraphResults, TransferPatternGraph } from "./results/GraphResults";
+import { TransferPatternResults } from "./results/TransferPatternResults";
+
+/**
+ * Generates the transfer patterns of an origin by performing a full day range query with the Raptor algorithm.
+ */
+export class TransferPatternGenerator {
+
+  constructor(
+    private readonly raptor: RaptorAlgorithm,
+    private readonly interchange: Interchange
+  ) { }
+
+  /**
+   * Return the transfer patterns of the origin indexed by journey
+   */
+  public create(origin: StopID, date: Date): TransferPatternIndex {
+    const results = new StringResults(this.interchange);
+
+    this.scanDay(origin, date, results);
+
+    return results.finalize();
+  }
+
+  /**
+   * Merge the transfer patterns of every origin into a single DAG
+   */
+  public createGraph(origins: StopID[], date: Date): TransferPatternGraph {
+    const results = new GraphResults();
+
+    for (const origin of origins) {
+      this.scanDay(origin, date, new StringResults(this.interchange), results);
+    }
+
+    return results.finalize();
+  }
+
+  /**
+   * Scan from the origin at every departure time of the day, each scan starts just after the earliest departure found
+   * by the previous one. The string results give that departure, the other results are given the same scans.
+   */
+  private scanDay(origin: StopID, date: Date, results: StringResults, other?: TransferPatternResults<unknown>): void {
+    const dateNumber = getDateNumber(date);
+    const dayOfWeek = date.getDay() as DayOfWeek;
+
+    for (let time = 1; time < Number.MAX_SAFE_INTEGER;) {
+      const [kConnections] = this.raptor.scan({ [origin]: time }, dateNumber, dayOfWeek);
+
+      other?.add(kConnections);
+      time = results.add(kConnections);
+    }
+  }
+
+}
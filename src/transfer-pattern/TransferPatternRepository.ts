@@ -1,10 +1,11 @@
-import {TransferPatternIndex} from "./results/StringResults";
-import {Pool} from "mysql2/promise";
+import {JourneyPatternKey, TransferPatternIndex} from "./results/StringResults";
+import {Pool, RowDataPacket} from "mysql2/promise";
+import {TransferPatternStorage} from "./TransferPatternStorage";
 
 /**
  * Access to the transfer_patterns table in a mysql compatible database
  */
-export class TransferPatternRepository {
+export class TransferPatternRepository implements TransferPatternStorage {
 
   constructor(
     private readonly db: Pool
@@ -27,6 +28,41 @@ export class TransferPatternRepository {
     }
   }
 
+  /**
+   * Return the transfer patterns of the given journeys, journeys without patterns are not in the index
+   */
+  public async getTransferPatterns(journeys: JourneyPatternKey[]): Promise<TransferPatternIndex> {
+    const results: TransferPatternIndex = {};
+
+    if (journeys.length > 0) {
+      const [rows] = await this.db.query<RowDataPacket[]>(
+        "SELECT journey, pattern FROM transfer_patterns WHERE journey IN (?)",
+        [journeys]
+      );
+
+      for (const row of rows) {
+        results[row.journey] = results[row.journey] || new Set();
+        results[row.journey].add(row.pattern);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Remove every transfer pattern, before they are generated again for a new timetable
+   */
+  public async clearTransferPatterns(): Promise<void> {
+    await this.db.query("DELETE FROM transfer_patterns");
+  }
+
+  /**
+   * Close the connections of the pool
+   */
+  public async close(): Promise<void> {
+    await this.db.end();
+  }
+
   private async retryQuery(sql: string, data: unknown[], numRetries: number = 3) {
     try {
       await this.db.query(sql, data);
@@ -43,16 +79,18 @@ export class TransferPatternRepository {
   }
 
   /**
-   * Create the transfer pattern table if it does not already exist
+   * Create the transfer pattern table if it does not already exist, and widen the journey column of a table created
+   * when the journey keys were a pair of stop codes (char(6))
    */
   public async initTables(): Promise<void> {
     await this.db.query(`
       CREATE TABLE IF NOT EXISTS transfer_patterns (
-        journey char(6) NOT NULL,
+        journey varchar(255) NOT NULL,
         pattern varchar(255) NOT NULL,
         PRIMARY KEY (journey,pattern)
       ) ENGINE=InnoDB DEFAULT CHARSET=latin1
      `
     );
+    await this.db.query("ALTER TABLE transfer_patterns MODIFY journey varchar(255) NOT NULL");
   }
 }
@@ -0,0 +1,93 @@
+import { Feature, FeatureCollection, LineString, Point } from "geojson";
+import { StopID, StopIndex } from "../../gtfs/GTFS";
+import { TransferPatternGraph } from "../results/GraphResults";
+
+/**
+ * Number of nodes of each stop and number of tree edges between each pair of stops. The trees of all the origins are
+ * merged, so the hubs of the network are the stops with the most nodes and edges.
+ */
+interface GraphSummary {
+  stops: Map<StopID, number>;
+  edges: Map<string, [StopID, StopID, number]>;
+}
+
+/**
+ * Export the graph in the DOT format of Graphviz, edges go in the direction of travel and are labelled with the number
+ * of patterns using them
+ */
+export function toDot(graph: TransferPatternGraph, stops: StopIndex): string {
+  const { stops: stopCounts, edges } = summarize(graph);
+  const lines = ["digraph transfer_patterns {"];
+
+  for (const [stop, count] of stopCounts) {
+    lines.push(`  ${quote(stop)} [label=${quote(stops[stop]?.name || stop)}, width=${(1 + Math.log2(count)).toFixed(2)}];`);
+  }
+
+  for (const [origin, destination, count] of edges.values()) {
+    lines.push(`  ${quote(origin)} -> ${quote(destination)} [label=${count}, penwidth=${(1 + Math.log2(count)).toFixed(2)}];`);
+  }
+
+  lines.push("}");
+
+  return lines.join("\n");
+}
+
+/**
+ * Export the graph as GeoJSON: a point for each stop and a line for each pair of stops, with the number of nodes or
+ * patterns in their properties. Stops missing from the index are skipped.
+ */
+export function toGeoJSON(graph: TransferPatternGraph, stops: StopIndex): FeatureCollection<Point | LineString> {
+  const { stops: stopCounts, edges } = summarize(graph);
+  const features: Feature<Point | LineString>[] = [];
+
+  for (const [stop, count] of stopCounts) {
+    if (stops[stop]) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: getCoordinates(stops, stop) },
+        properties: { id: stop, name: stops[stop].name, nodes: count }
+      });
+    }
+  }
+
+  for (const [origin, destination, count] of edges.values()) {
+    if (stops[origin] && stops[destination]) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: [getCoordinates(stops, origin), getCoordinates(stops, destination)] },
+        properties: { from: origin, to: destination, count }
+      });
+    }
+  }
+
+  return { type: "FeatureCollection", features };
+}
+
+function summarize(graph: TransferPatternGraph): GraphSummary {
+  const stops = new Map<StopID, number>();
+  const edges = new Map<string, [StopID, StopID, number]>();
+
+  for (const label in graph) {
+    stops.set(label, graph[label].length);
+
+    for (const node of graph[label]) {
+      if (node.parent) {
+        const key = node.parent.label + "," + label;
+        const edge = edges.get(key) || [node.parent.label, label, 0];
+
+        edge[2]++;
+        edges.set(key, edge);
+      }
+    }
+  }
+
+  return { stops, edges };
+}
+
+function getCoordinates(stops: StopIndex, stop: StopID): [number, number] {
+  return [stops[stop].longitude, stops[stop].latitude];
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
@@ -0,0 +1,28 @@
+import { StopID } from "../../gtfs/GTFS";
+import { TransferPatternGraph } from "../results/GraphResults";
+import { Path } from "../results/TransferPatternResults";
+
+/**
+ * Return every transfer pattern of the graph from the origin to the destination. Each path starts with the origin,
+ * ends with the destination and lists the change points in between.
+ *
+ * The nodes labelled with the destination are followed up to the root of their tree, which is the origin of the scans
+ * that produced them.
+ */
+export function getGraphPatterns(graph: TransferPatternGraph, origin: StopID, destination: StopID): Path[] {
+  const results: Path[] = [];
+
+  for (let node of graph[destination] || []) {
+    const path: Path = [];
+
+    for (; node; node = node.parent) {
+      path.unshift(node.label);
+    }
+
+    if (path.length > 1 && path[0] === origin) {
+      results.push(path);
+    }
+  }
+
+  return results;
+}
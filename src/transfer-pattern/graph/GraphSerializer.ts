@@ -0,0 +1,77 @@
+import { readFile, writeFile } from "fs/promises";
+import { StopID } from "../../gtfs/GTFS";
+import { TransferPatternGraph, TreeNode } from "../results/GraphResults";
+
+/**
+ * Compact form of the transfer pattern graph. Each stop ID is only stored once, and each node is a pair of numbers in
+ * the nodes array: the index of its stop and the index of its parent node (-1 for a root). A parent is always stored
+ * before its children.
+ */
+export interface SerializedTransferPatternGraph {
+  stops: StopID[];
+  nodes: number[];
+}
+
+/**
+ * Convert the graph into its compact form
+ */
+export function serializeGraph(graph: TransferPatternGraph): SerializedTransferPatternGraph {
+  const stops: StopID[] = [];
+  const nodes: number[] = [];
+  const stopIndex = new Map<StopID, number>();
+  const nodeIndex = new Map<TreeNode, number>();
+
+  const addNode = (node: TreeNode): number => {
+    if (!nodeIndex.has(node)) {
+      const parent = node.parent ? addNode(node.parent) : -1;
+
+      if (!stopIndex.has(node.label)) {
+        stopIndex.set(node.label, stops.length);
+        stops.push(node.label);
+      }
+
+      nodeIndex.set(node, nodes.length / 2);
+      nodes.push(stopIndex.get(node.label), parent);
+    }
+
+    return nodeIndex.get(node);
+  };
+
+  for (const label in graph) {
+    graph[label].forEach(addNode);
+  }
+
+  return { stops, nodes };
+}
+
+/**
+ * Rebuild the graph from its compact form
+ */
+export function deserializeGraph({ stops, nodes }: SerializedTransferPatternGraph): TransferPatternGraph {
+  const graph: TransferPatternGraph = {};
+  const treeNodes: TreeNode[] = [];
+
+  for (let i = 0; i < nodes.length; i += 2) {
+    const node = { label: stops[nodes[i]], parent: nodes[i + 1] === -1 ? null : treeNodes[nodes[i + 1]] };
+
+    graph[node.label] = graph[node.label] || [];
+    graph[node.label].push(node);
+    treeNodes.push(node);
+  }
+
+  return graph;
+}
+
+/**
+ * Write the graph to a JSON file
+ */
+export async function saveGraph(path: string, graph: TransferPatternGraph): Promise<void> {
+  await writeFile(path, JSON.stringify(serializeGraph(graph)));
+}
+
+/**
+ * Read a graph written by saveGraph
+ */
+export async function loadGraph(path: string): Promise<TransferPatternGraph> {
+  return deserializeGraph(JSON.parse(await readFile(path, "utf-8")));
+}
@@ -77,13 +77,15 @@ export class GraphResults implements TransferPatternResults<TransferPatternGraph
    * Check whether the given path is the same as the path between the given node and the root node
    */
   private isSame(path: Path, node: TreeNode | null): boolean {
-    for (let i = 0; node; i++, node = node.parent) {
+    let i = 0;
+
+    for (; node; i++, node = node.parent) {
       if (node.label !== path[i]) {
         return false;
       }
     }
 
-    return true;
+    return i === path.length;
   }
 
 }
@@ -2,7 +2,7 @@ import { ConnectionIndex } from "../../raptor/ScanResults";
 import { isTransfer } from "../../results/ResultsFactory";
 import { StopID, Time } from "../../gtfs/GTFS";
 import { Path } from "./TransferPatternResults";
-import { Interchange } from "../../raptor/RaptorAlgorithm";
+import { getTransferInterchange, Interchange } from "../../raptor/RaptorAlgorithm";
 
 /**
  * Store the kConnection results as an index where the key is the journey origin and destination and the value is a Set
@@ -27,7 +27,7 @@ export class StringResults {
 
         if (path.length >= 1) {
           const [origin, ...tail] = path;
-          const journeyKey = origin > destination ? destination + origin : origin + destination;
+          const journeyKey = getJourneyKey(origin, destination);
           const pathString = origin > destination ? tail.reverse().join(",") : tail.join(",");
 
           this.results[journeyKey] = this.results[journeyKey] || new Set();
@@ -50,27 +50,38 @@ export class StringResults {
   private getPath(kConnections: ConnectionIndex, k: string, finalDestination: StopID): [Path, Time] {
     const path: Path = [];
     let departureTime = Number.MAX_SAFE_INTEGER;
+    let hasTimetableLeg = false;
 
     for (let destination = finalDestination, i = parseInt(k, 10); i > 0; i--) {
       const connection = kConnections[destination][i];
       const origin = isTransfer(connection) ? connection.origin : connection[0].stopTimes[connection[1]].stopId;
 
       departureTime = isTransfer(connection)
-          ? departureTime - connection.duration - this.interchange[connection.destination]
+          ? departureTime - connection.duration - getTransferInterchange(connection, this.interchange)
           : connection[0].stopTimes[connection[1]].departureTime;
+      hasTimetableLeg = hasTimetableLeg || !isTransfer(connection);
 
       path.unshift(origin);
 
       destination = origin;
     }
 
-    return [path, departureTime];
+    // a path made of transfers only can be walked at any time, it does not give a departure time
+    return [path, hasTimetableLeg ? departureTime : Number.MAX_SAFE_INTEGER];
   }
 
 }
 
 /**
- * Origin + destination.
+ * Key of the transfer patterns between two stops. The patterns are stored once for both directions, so the key starts
+ * with the lowest stop ID.
+ */
+export function getJourneyKey(origin: StopID, destination: StopID): JourneyPatternKey {
+  return origin > destination ? destination + "," + origin : origin + "," + destination;
+}
+
+/**
+ * Origin + destination, separated by a comma.
  */
 export type JourneyPatternKey = string;
 
@@ -1,13 +1,131 @@
 import { Station } from 'src/interfaces';
 import fs from 'fs/promises';
+import { Footpath } from './geo/Footpaths';
+import { WALKING_SPEED } from './utils/FormatUtils';
 
 interface RawTransfer {
 	from_stop_id: string;
 	to_stop_id: string;
 	transfer_type: string;
-	min_transfer_time?: number;
+	min_transfer_time?: string;
+	walking_distance?: string;
+	start_time?: string;
+	end_time?: string;
+	days?: string[];
+	from_trip_id?: string;
+	to_trip_id?: string;
+	from_route_id?: string;
+	to_route_id?: string;
 }
 
+// Days of a transfer window, in the order of JavaScript .getDay
+const dayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * Converts a GTFS time (HH:MM:SS, possibly after 24:00:00) to seconds from midnight.
+ *
+ * @returns The number of seconds, or NaN if the time is invalid.
+ */
+const parseTime = (time: string): number => {
+	const match = /^(\d{1,2}):([0-5]\d):([0-5]\d)$/.exec(time);
+	return match ? (+match[1]) * 3600 + (+match[2]) * 60 + (+match[3]) : NaN;
+};
+
+const formatTime = (time: number): string => {
+	return [Math.floor(time / 3600), Math.floor(time / 60) % 60, time % 60]
+		.map(value => value.toString().padStart(2, '0'))
+		.join(':');
+};
+
+/**
+ * Checks the validity window of a transfer: times in the GTFS format with the start before the end,
+ * and known day names. The end time can be after 24:00:00 for a transfer open past midnight.
+ *
+ * @throws {Error} If the window is invalid.
+ */
+const validateTransferWindow = (transfer: RawTransfer): void => {
+	const error = (reason: string) => new Error(`Fenêtre de correspondance invalide de ${transfer.from_stop_id} vers ${transfer.to_stop_id} : ${reason}`);
+
+	if (transfer.start_time !== undefined && isNaN(parseTime(transfer.start_time))) {
+		throw error(`heure de début ${transfer.start_time}`);
+	}
+	if (transfer.end_time !== undefined && isNaN(parseTime(transfer.end_time))) {
+		throw error(`heure de fin ${transfer.end_time}`);
+	}
+	if (transfer.start_time !== undefined && transfer.end_time !== undefined && parseTime(transfer.start_time) >= parseTime(transfer.end_time)) {
+		throw error(`${transfer.start_time} n'est pas avant ${transfer.end_time}`);
+	}
+	if (transfer.days !== undefined && (!Array.isArray(transfer.days) || transfer.days.length === 0 || transfer.days.some(day => !dayNames.includes(day)))) {
+		throw error(`jours ${JSON.stringify(transfer.days)}`);
+	}
+};
+
+/**
+ * Returns true if the transfer only applies between some trips or routes, in-seat transfers (4 and 5) always do.
+ */
+const isRestricted = (transfer: RawTransfer): boolean => {
+	return transfer.transfer_type === '4' || transfer.transfer_type === '5'
+		|| !!transfer.from_trip_id || !!transfer.to_trip_id || !!transfer.from_route_id || !!transfer.to_route_id;
+};
+
+/**
+ * Merges the overlapping or adjacent windows of the transfers between the same stops, with the same type,
+ * duration and days. Transfers valid every day and at any time have no window fields. The transfers restricted
+ * to some trips or routes are kept as they are.
+ *
+ * @throws {Error} If a window is invalid.
+ */
+const mergeTransferWindows = (transfers: RawTransfer[]): RawTransfer[] => {
+	const groups = new Map<string, [RawTransfer, number, number][]>();
+	const mergedTransfers: RawTransfer[] = [];
+
+	for (const transfer of transfers) {
+		validateTransferWindow(transfer);
+
+		if (isRestricted(transfer)) {
+			mergedTransfers.push(transfer);
+			continue;
+		}
+
+		const days = transfer.days ? dayNames.filter(day => transfer.days.includes(day)) : dayNames;
+		const key = [transfer.from_stop_id, transfer.to_stop_id, transfer.transfer_type, transfer.min_transfer_time, days.join()].join('|');
+		const group = groups.get(key) || [];
+
+		group.push([
+			{ ...transfer, days: days.length < dayNames.length ? days : undefined },
+			transfer.start_time !== undefined ? parseTime(transfer.start_time) : 0,
+			transfer.end_time !== undefined ? parseTime(transfer.end_time) : Number.MAX_SAFE_INTEGER,
+		]);
+		groups.set(key, group);
+	}
+
+	for (const group of groups.values()) {
+		group.sort((a, b) => a[1] - b[1]);
+
+		const windows: [RawTransfer, number, number][] = [];
+		for (const window of group) {
+			const last = windows[windows.length - 1];
+			if (last && window[1] <= last[2]) {
+				last[2] = Math.max(last[2], window[2]);
+			} else {
+				windows.push([...window]);
+			}
+		}
+
+		for (const [transfer, startTime, endTime] of windows) {
+			const { start_time, end_time, days, ...fields } = transfer;
+			mergedTransfers.push({
+				...fields,
+				...(startTime > 0 ? { start_time: formatTime(startTime) } : {}),
+				...(endTime < Number.MAX_SAFE_INTEGER ? { end_time: formatTime(endTime) } : {}),
+				...(days ? { days } : {}),
+			});
+		}
+	}
+
+	return mergedTransfers;
+};
+
 const makeTransfersReciprocal = (transfers: RawTransfer[]): RawTransfer[] => {
 	const updatedTransfers: RawTransfer[] = [...transfers];
 	const seenPairs = new Set<string>();
@@ -37,11 +155,18 @@ const makeTransfersReciprocal = (transfers: RawTransfer[]): RawTransfer[] => {
  * The transfers.txt is very pood, we need to fix it.
  * Here is the purpose of this function.
  * 
+ * A replacement transfer can be limited to a time window (start_time, end_time) and to some days
+ * (days, e.g. ["saturday", "sunday"]), several windows are given as several transfers.
+ * 
+ * The footpaths between nearby stops are added as walking transfers, except from the stops
+ * whose transfers are replaced.
+ * 
  * @param {Map<string, Station>} stations The stations data.
+ * @param {Footpath[]} footpaths The walks between nearby stops.
  * 
  * @returns {Promise<void>} A promise that resolves when the formatting is complete.
  */
-export async function formatTransfers(stations: Map<string, Station>): Promise<void> {
+export async function formatTransfers(stations: Map<string, Station>, footpaths: Footpath[] = []): Promise<void> {
 	let transfersData: RawTransfer[] = JSON.parse(await fs.readFile('imports/GTFS/transfers.json', 'utf-8'));
 	transfersData = makeTransfersReciprocal(transfersData);
 
@@ -53,7 +178,10 @@ export async function formatTransfers(stations: Map<string, Station>): Promise<v
 				from_stop_id: fromStopId,
 				to_stop_id: transfer.to_stop_id,
 				transfer_type: transfer.transfer_type || '2',
-				min_transfer_time: transfer.min_transfer_time || 0,
+				min_transfer_time: String(transfer.min_transfer_time ?? 0),
+				start_time: transfer.start_time,
+				end_time: transfer.end_time,
+				days: transfer.days,
 			});
 		}
 	}
@@ -64,18 +192,40 @@ export async function formatTransfers(stations: Map<string, Station>): Promise<v
 		for (const physicalStationId of physicalStopIds) {
 			const otherPhysicalStops = physicalStopIds.filter(neightId => neightId !== physicalStationId);
 			for (const neightId of otherPhysicalStops) {
-				if (!transfersData.some(transfer => transfer.from_stop_id === physicalStationId && transfer.to_stop_id === neightId)) {
+				if (!transfersData.some(transfer => transfer.from_stop_id === physicalStationId && transfer.to_stop_id === neightId && !isRestricted(transfer))) {
 					transfersData.push({
 						from_stop_id: physicalStationId,
 						to_stop_id: neightId,
 						transfer_type: '2',
-						min_transfer_time: 0,
+						min_transfer_time: '0',
 					});
 				}
 			}
 		}
 	}
 
+	// Walking transfers between nearby stops, the transfers of the replaced stops are kept as they are. A transfer only
+	// between some trips or routes is not a transfer between the stops, so it does not replace the walking transfer
+	const existingTransfers = new Set(transfersData
+		.filter(transfer => !isRestricted(transfer))
+		.map(transfer => `${transfer.from_stop_id}-${transfer.to_stop_id}`));
+	for (const footpath of footpaths) {
+		for (const [fromStopId, toStopId] of [[footpath.from, footpath.to], [footpath.to, footpath.from]]) {
+			if (existingTransfers.has(`${fromStopId}-${toStopId}`) || transfersReplacementRaw.hasOwnProperty(fromStopId)) continue;
+
+			transfersData.push({
+				from_stop_id: fromStopId,
+				to_stop_id: toStopId,
+				transfer_type: '2',
+				min_transfer_time: String(Math.ceil(footpath.distance / WALKING_SPEED)),
+				walking_distance: String(Math.round(footpath.distance)),
+			});
+			existingTransfers.add(`${fromStopId}-${toStopId}`);
+		}
+	}
+
+	transfersData = mergeTransferWindows(transfersData);
+
 	await fs.mkdir('exports', { recursive: true });
 	await fs.writeFile('exports/transfers.json', JSON.stringify(transfersData, null, 2));
 }
@@ -1,7 +1,19 @@
 import { Coords } from "src/interfaces";
 
 export const MIN_INTERCHANGE_TIME = 2 * 60; // This is the minimal time for a corresp. (Default to 3 min)
+export const WALKING_SPEED = 1.4; // Average walking speed (in meters per second)
+export const BIKE_SPEED = 4.2; // Average bike-share speed (in meters per second)
+export const bikeStationRadius: number = 400; // Maximum walking distance to a bike-share station (in meters)
+export const CAR_SPEED = 8.3; // Average urban driving speed (in meters per second)
+export const parkingDuration: number = 3 * 60; // Time to park the car at a park-and-ride lot (in seconds)
+export const maxParkAndRideDistance: number = 20000; // Maximum driving distance to a park-and-ride lot (in meters)
 export const maxDays: number = 30; // Maximum number of days to search for itineraries
+export const maxRangeDuration: number = 3 * 60 * 60; // Maximum width of a departure window for range queries (in seconds)
+export const maxIsochroneDuration: number = 60; // Maximum time budget of an isochrone (in minutes)
+export const isochroneBand: number = 10; // Width of the time bands of an isochrone (in minutes)
+export const defaultBoardDuration: number = 30; // Default time window of a departure board (in minutes)
+export const maxBoardDuration: number = 3 * 60; // Maximum time window of a departure board (in minutes)
+export const footpathRadius: number = 300; // Maximum walking distance of the transfers generated between nearby stops (in meters)
 
 /**
  * Converts an array of numbers into a `Coords` object.